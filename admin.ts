@@ -0,0 +1,162 @@
+import { createHash, timingSafeEqual } from 'crypto';
+
+import { Router } from 'express';
+import { validate } from 'uuid';
+
+import { deleteImage, getImageUrl } from './image-store';
+import logger from './logger';
+import { Row, Storage } from './storage';
+
+const MAX_PAGE_SIZE = 100;
+
+// hashing first means the comparison takes as long whatever the length of what was sent
+function isTokenValid(expected: string, actual: string) {
+  const hash = (token: string) => createHash('sha256').update(token).digest();
+  return timingSafeEqual(hash(expected), hash(actual));
+}
+
+function toImage({ created_at, downvotes, id, saved, upvotes }: Row) {
+  return {
+    createdAt: created_at,
+    downvotes: Number(downvotes),
+    id,
+    saved: Number(saved) > 0,
+    thumbnailUrl: getImageUrl(id, 'thumbnail'),
+    upvotes: Number(upvotes),
+    url: getImageUrl(id)
+  };
+}
+
+// everything in here needs the admin token as a bearer token
+export function createAdminRouter(storage: Storage, token: string) {
+  const router = Router();
+
+  router.use((req, res, next) => {
+    const [scheme, credentials] = (req.headers.authorization ?? '').split(' ');
+    if (!(scheme === 'Bearer' && credentials && isTokenValid(token, credentials))) {
+      res.sendStatus(401);
+      return;
+    }
+
+    next();
+  });
+
+  // every track with cached lyrics or images, with how many of each
+  router.get('/tracks', async (req, res) => {
+    const limit = Math.max(Math.min(parseInt(req.query.limit as string ?? '', 10) || 50, MAX_PAGE_SIZE), 1);
+    const offset = Math.max(parseInt(req.query.offset as string ?? '', 10) || 0, 0);
+    try {
+      const trackRows = await storage.query(`
+        SELECT track_id, SUM(line_count) AS line_count, SUM(image_count) AS image_count FROM (
+          SELECT track_id, COUNT(*) AS line_count, 0 AS image_count FROM lyrics GROUP BY track_id
+          UNION ALL
+          SELECT track_id, 0 AS line_count, COUNT(*) AS image_count FROM generations WHERE track_id IS NOT NULL GROUP BY track_id
+        ) AS counts
+        GROUP BY track_id
+        ORDER BY track_id ASC
+        LIMIT ${limit} OFFSET ${offset}
+      `);
+      const totalRows = await storage.query('SELECT COUNT(*) AS total FROM (SELECT track_id FROM lyrics UNION SELECT track_id FROM generations WHERE track_id IS NOT NULL) AS tracks');
+      res.json({
+        total: Number(totalRows[0].total),
+        tracks: trackRows.map(({ image_count, line_count, track_id }) => ({
+          imageCount: Number(image_count),
+          lineCount: Number(line_count),
+          trackId: track_id
+        }))
+      });
+    } catch (error) {
+      logger.error('admin tracks error', {
+        error
+      });
+      res.sendStatus(500);
+    }
+  });
+
+  // images are grouped under the line they were generated for, any that don't match a current line are listed separately
+  router.get('/tracks/:trackId', async (req, res) => {
+    const { trackId } = req.params;
+    try {
+      const lineRows = await storage.query('SELECT start_time_ms, words FROM lyrics WHERE track_id = ? ORDER BY start_time_ms ASC', [trackId]);
+      const imageRows = await storage.query(`
+        SELECT
+          id,
+          created_at,
+          start_time_ms,
+          (SELECT COUNT(*) FROM image_ratings WHERE generation_id = generations.id AND rating > 0) AS upvotes,
+          (SELECT COUNT(*) FROM image_ratings WHERE generation_id = generations.id AND rating < 0) AS downvotes,
+          (SELECT COUNT(*) FROM visualisation_lines WHERE generation_id = generations.id) AS saved
+        FROM generations
+        WHERE track_id = ?
+        ORDER BY created_at ASC
+      `, [trackId]);
+      if (lineRows.length === 0 && imageRows.length === 0) {
+        res.sendStatus(404);
+        return;
+      }
+
+      const startTimes = new Set(lineRows.map(({ start_time_ms }) => start_time_ms));
+      res.json({
+        lines: lineRows.map(({ start_time_ms, words }) => ({
+          images: imageRows.filter((image) => image.start_time_ms === start_time_ms).map(toImage),
+          startTimeMs: start_time_ms,
+          words
+        })),
+        otherImages: imageRows.filter(({ start_time_ms }) => !startTimes.has(start_time_ms)).map(toImage),
+        trackId
+      });
+    } catch (error) {
+      logger.error('admin track error', {
+        error
+      });
+      res.sendStatus(500);
+    }
+  });
+
+  // the next generation for this track asks the lyrics providers again
+  router.delete('/tracks/:trackId/lyrics', async (req, res) => {
+    try {
+      const { affectedRows } = await storage.execute('DELETE FROM lyrics WHERE track_id = ?', [req.params.trackId]);
+      res.sendStatus(affectedRows > 0 ? 204 : 404);
+    } catch (error) {
+      logger.error('admin lyrics purge error', {
+        error
+      });
+      res.sendStatus(500);
+    }
+  });
+
+  // images in saved visualisations are kept, deleting them would break their permalinks
+  router.delete('/images/:imageId', async (req, res) => {
+    const { imageId } = req.params;
+    if (!validate(imageId)) {
+      res.sendStatus(400);
+      return;
+    }
+
+    try {
+      const savedRows = await storage.query('SELECT id FROM visualisation_lines WHERE generation_id = ? LIMIT 1', [imageId]);
+      if (savedRows.length > 0) {
+        res.sendStatus(409);
+        return;
+      }
+
+      const { affectedRows } = await storage.execute('DELETE FROM generations WHERE id = ?', [imageId]);
+      if (affectedRows === 0) {
+        res.sendStatus(404);
+        return;
+      }
+
+      await storage.execute('DELETE FROM image_ratings WHERE generation_id = ?', [imageId]);
+      await deleteImage(imageId);
+      res.sendStatus(204);
+    } catch (error) {
+      logger.error('admin image delete error', {
+        error
+      });
+      res.sendStatus(500);
+    }
+  });
+
+  return router;
+}
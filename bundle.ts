@@ -0,0 +1,75 @@
+import fs from 'fs';
+
+import { config } from 'dotenv';
+
+import { exportBundle, importBundle, InvalidBundleError } from './bundles';
+import { createDbStorage } from './db';
+import logger from './logger';
+import { migrate } from './migrations';
+
+config();
+
+const USAGE = 'usage: yarn bundle export <visualisation ID> [output file] | yarn bundle import <bundle file>';
+
+async function run(command: string | undefined, args: string[]) {
+  const storage = createDbStorage();
+  try {
+    switch (command) {
+      case 'export': {
+        const [visualisationId, outputPath = `${visualisationId}.zip`] = args;
+        if (!visualisationId) {
+          console.error(USAGE);
+          return 1;
+        }
+
+        const bundle = await exportBundle(storage, visualisationId);
+        if (!bundle) {
+          console.error(`no visualisation ${visualisationId}`);
+          return 1;
+        }
+
+        await fs.promises.writeFile(outputPath, bundle);
+        console.log('exported', {
+          outputPath,
+          visualisationId
+        });
+        return 0;
+      }
+      case 'import': {
+        const [inputPath] = args;
+        if (!inputPath) {
+          console.error(USAGE);
+          return 1;
+        }
+
+        // the bundle may well be going somewhere the server has never run
+        await migrate(storage);
+        const { created, visualisationId } = await importBundle(storage, await fs.promises.readFile(inputPath));
+        console.log(created ? 'imported' : 'already imported', {
+          visualisationId
+        });
+        return 0;
+      }
+      default:
+        console.error(USAGE);
+        return 1;
+    }
+  } catch (error) {
+    if (error instanceof InvalidBundleError) {
+      console.error(`invalid bundle: ${error.message}`);
+      return 1;
+    }
+
+    throw error;
+  } finally {
+    await storage.close();
+  }
+}
+
+const [command, ...args] = process.argv.slice(2);
+run(command, args).then((code) => process.exit(code), (error) => {
+  logger.error('bundle error', {
+    error
+  });
+  process.exit(1);
+});
@@ -0,0 +1,237 @@
+import fs from 'fs';
+
+import JSZip from 'jszip';
+import { v4 } from 'uuid';
+
+import { IMAGES_DIR, readImage, writeImage } from './image-store';
+import { INTERLUDE_VISUALS, InterludeVisual } from './interludes';
+import { formatLrc, LrcLine } from './lrc';
+import { Storage } from './storage';
+
+export const BUNDLE_VERSION = 1;
+
+export interface BundleManifest {
+  exportedAt: string;
+  // every line the database had for the track, so the lyrics provider doesn't need asking again
+  lyrics: LrcLine[];
+  lines: {
+    imageFile: string;
+    imageId: string;
+    // missing from bundles exported before interludes, which only had sung lines
+    interlude?: InterludeVisual | null;
+    promptHash: string | null;
+    // missing from bundles exported before scenes, when every line was its own
+    sceneIndex?: number;
+    startTimeMs: number;
+    words: string;
+  }[];
+  version: number;
+  visualisation: {
+    artists: string | null;
+    id: string;
+    name: string;
+    thumbnailUrl: string | null;
+    title: string | null;
+    trackId: string;
+  };
+}
+
+export class InvalidBundleError extends Error {}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/svg+xml': 'svg',
+  'image/webp': 'webp'
+};
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isNullableString(value: unknown) {
+  return value === null || typeof value === 'string';
+}
+
+// image IDs end up as file names, so anything that isn't exactly what we'd have written is refused
+function validateManifest(manifest: unknown): asserts manifest is BundleManifest {
+  if (!(isObject(manifest) && manifest.version === BUNDLE_VERSION)) {
+    throw new InvalidBundleError(`unsupported bundle version ${isObject(manifest) ? manifest.version : undefined}`);
+  }
+
+  const { lines, lyrics, visualisation } = manifest;
+  if (!(
+    isObject(visualisation) &&
+    typeof visualisation.id === 'string' && UUID_REGEX.test(visualisation.id) &&
+    typeof visualisation.name === 'string' &&
+    typeof visualisation.trackId === 'string' &&
+    [visualisation.artists, visualisation.thumbnailUrl, visualisation.title].every(isNullableString)
+  )) {
+    throw new InvalidBundleError('invalid visualisation');
+  }
+
+  if (!(Array.isArray(lyrics) && lyrics.every((line: unknown) => isObject(line) && Number.isInteger(line.startTimeMs) && typeof line.words === 'string'))) {
+    throw new InvalidBundleError('invalid lyrics');
+  }
+
+  if (!(Array.isArray(lines) && lines.length > 0 && lines.every((line: unknown) => (
+    isObject(line) &&
+    typeof line.imageId === 'string' && UUID_REGEX.test(line.imageId) &&
+    typeof line.imageFile === 'string' &&
+    (line.interlude === undefined || line.interlude === null || INTERLUDE_VISUALS.includes(line.interlude as InterludeVisual)) &&
+    isNullableString(line.promptHash) &&
+    (line.sceneIndex === undefined || Number.isInteger(line.sceneIndex)) &&
+    Number.isInteger(line.startTimeMs) &&
+    typeof line.words === 'string'
+  )))) {
+    throw new InvalidBundleError('invalid lines');
+  }
+}
+
+// a zip of manifest.json, the images each line shows and a plain .lrc of the lines, resolves to null if there's no such visualisation
+export async function exportBundle(storage: Storage, visualisationId: string) {
+  const visualisationRows = await storage.query('SELECT artists, name, thumbnail_url, title, track_id FROM visualisations WHERE id = ?', [visualisationId]);
+  const visualisation = visualisationRows[0];
+  if (!visualisation) {
+    return null;
+  }
+
+  const lineRows = await storage.query(`
+    SELECT visualisation_lines.generation_id, visualisation_lines.interlude, visualisation_lines.line_index, visualisation_lines.scene_index, visualisation_lines.start_time_ms, visualisation_lines.words, generations.words_hash
+    FROM visualisation_lines
+    LEFT JOIN generations ON generations.id = visualisation_lines.generation_id
+    WHERE visualisation_lines.visualisation_id = ?
+    ORDER BY visualisation_lines.line_index ASC
+  `, [visualisationId]);
+  const lyricRows = await storage.query('SELECT words, start_time_ms FROM lyrics WHERE track_id = ? ORDER BY start_time_ms ASC', [visualisation.track_id]);
+
+  const zip = new JSZip();
+  const imageFiles: Map<string, string> = new Map();
+  const lines: BundleManifest['lines'] = [];
+  for (const { generation_id, interlude, line_index, scene_index, start_time_ms, words, words_hash } of lineRows) {
+    let imageFile = imageFiles.get(generation_id);
+    if (!imageFile) {
+      const { data, mimeType } = await readImage(generation_id);
+      imageFile = `images/${generation_id}.${EXTENSIONS[mimeType] ?? 'bin'}`;
+      zip.file(imageFile, data);
+      imageFiles.set(generation_id, imageFile);
+    }
+
+    lines.push({
+      imageFile,
+      imageId: generation_id,
+      interlude: interlude ?? null,
+      promptHash: words_hash ?? null,
+      sceneIndex: scene_index ?? line_index,
+      startTimeMs: start_time_ms,
+      words
+    });
+  }
+
+  const manifest: BundleManifest = {
+    exportedAt: new Date().toISOString(),
+    lines,
+    lyrics: lyricRows.map(({ start_time_ms, words }) => ({
+      startTimeMs: start_time_ms,
+      words
+    })),
+    version: BUNDLE_VERSION,
+    visualisation: {
+      artists: visualisation.artists,
+      id: visualisationId,
+      name: visualisation.name,
+      thumbnailUrl: visualisation.thumbnail_url,
+      title: visualisation.title,
+      trackId: visualisation.track_id
+    }
+  };
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+  // the track's own lyrics, since lines also hold interludes and the extra shots of long lines, which repeat its words
+  const lrcLines = manifest.lyrics.length > 0 ? manifest.lyrics : lines.filter(({ interlude, sceneIndex, words }, index) => {
+    const previousLine = lines[index - 1];
+    return !interlude && !(previousLine && previousLine.sceneIndex === sceneIndex && previousLine.words === words);
+  });
+  zip.file('lyrics.lrc', formatLrc(lrcLines, {
+    ar: visualisation.artists,
+    ti: visualisation.title
+  }));
+
+  return zip.generateAsync({
+    compression: 'DEFLATE',
+    type: 'nodebuffer'
+  });
+}
+
+// puts everything back exactly as it was exported, existing rows and images are left alone so importing twice is harmless
+export async function importBundle(storage: Storage, bundle: Buffer) {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(bundle);
+  } catch (error) {
+    throw new InvalidBundleError('not a zip file');
+  }
+
+  const manifestFile = zip.file('manifest.json');
+  if (!manifestFile) {
+    throw new InvalidBundleError('missing manifest.json');
+  }
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(await manifestFile.async('string'));
+  } catch (error) {
+    throw new InvalidBundleError('manifest.json isn\'t valid JSON');
+  }
+  validateManifest(manifest);
+
+  const { lines, lyrics, visualisation } = manifest;
+  const images: Map<string, Buffer> = new Map();
+  for (const { imageFile, imageId } of lines) {
+    const file = zip.file(imageFile);
+    if (!file) {
+      throw new InvalidBundleError(`missing ${imageFile}`);
+    }
+
+    images.set(imageId, await file.async('nodebuffer'));
+  }
+
+  await fs.promises.mkdir(IMAGES_DIR, {
+    recursive: true
+  });
+  for (const [imageId, data] of images) {
+    const exists = await fs.promises.access(`${IMAGES_DIR}/${imageId}`).then(() => true, () => false);
+    if (!exists) {
+      await writeImage(imageId, data);
+    }
+
+    // images without a prompt hash were never cached, so they only show up through the visualisation
+    const { promptHash, startTimeMs } = lines.find((line) => line.imageId === imageId) as BundleManifest['lines'][number];
+    const generationRows = await storage.query('SELECT id FROM generations WHERE id = ?', [imageId]);
+    if (promptHash && generationRows.length === 0) {
+      await storage.execute('INSERT INTO generations (id, start_time_ms, track_id, words_hash) VALUES (?, ?, ?, ?)', [imageId, startTimeMs, visualisation.trackId, promptHash]);
+    }
+  }
+
+  const existingLyricRows = await storage.query('SELECT id FROM lyrics WHERE track_id = ? LIMIT 1', [visualisation.trackId]);
+  if (existingLyricRows.length === 0) {
+    await Promise.all(lyrics.map(({ startTimeMs, words }) => {
+      return storage.execute('INSERT INTO lyrics (id, words, start_time_ms, track_id) VALUES (?, ?, ?, ?)', [v4(), words, startTimeMs, visualisation.trackId]);
+    }));
+  }
+
+  const existingVisualisationRows = await storage.query('SELECT id FROM visualisations WHERE id = ?', [visualisation.id]);
+  const created = existingVisualisationRows.length === 0;
+  if (created) {
+    // keeping the ID means permalinks carry over between environments
+    await storage.execute('INSERT INTO visualisations (id, artists, name, thumbnail_url, title, track_id) VALUES (?, ?, ?, ?, ?, ?)', [visualisation.id, visualisation.artists, visualisation.name, visualisation.thumbnailUrl, visualisation.title, visualisation.trackId]);
+    await Promise.all(lines.map(({ imageId, interlude, sceneIndex, startTimeMs, words }, index) => {
+      return storage.execute('INSERT INTO visualisation_lines (id, generation_id, interlude, line_index, scene_index, start_time_ms, visualisation_id, words) VALUES (?, ?, ?, ?, ?, ?, ?, ?)', [v4(), imageId, interlude ?? null, index, sceneIndex ?? index, startTimeMs, visualisation.id, words]);
+    }));
+  }
+
+  return {
+    created,
+    visualisationId: visualisation.id
+  };
+}
@@ -0,0 +1,382 @@
+import path from 'path';
+
+import { IMAGE_EVICTION_ORDERS, ImageCacheOptions } from './image-cache';
+import { DEFAULT_PROVIDER_LIMITS, IMAGE_GENERATOR_PROVIDERS, ImageGeneratorOptions, ImageGeneratorProvider } from './image-generators';
+import { INTERLUDE_VISUALS, InterludeOptions } from './interludes';
+import logger from './logger';
+import { LYRICS_PROVIDERS, LyricsProviderName } from './lyrics-providers';
+import { STYLE_PRESETS } from './prompt-builder';
+import { QuotaLimits } from './quotas';
+import { ScenePlannerOptions } from './scene-planner';
+import { BackoffOptions, Limits } from './scheduler';
+import { STORAGE_DRIVERS, StorageDriver, StorageOptions } from './storage';
+
+const IMAGE_FORMATS = ['jpeg', 'png', 'webp'] as const;
+// where the fake Spotify is mounted in mock mode
+export const MOCK_SPOTIFY_PATH = '/mock/spotify';
+// what express.raw() and friends accept
+const SIZE_LIMIT_REGEX = /^\d+(\.\d+)?\s*(b|kb|mb|gb)?$/i;
+
+export interface SpotifyUrls {
+  accounts: string;
+  api: string;
+  // serves lyrics to the web player
+  lyrics: string;
+  // the web player itself, which hands out access tokens for a sp_dc cookie
+  web: string;
+}
+
+export interface DbConfig {
+  driver: StorageDriver;
+  migrateOnStart: boolean;
+  storage: StorageOptions;
+}
+
+export interface Config {
+  adminToken: string | null;
+  // where the frontend is served from, the only origin the login window hands the code back to
+  appUrl: string;
+  db: DbConfig;
+  generation: {
+    backoff: BackoffOptions;
+    concurrentJobs: number;
+    drainTimeoutMs: number;
+    interludes: InterludeOptions;
+    limits: Limits;
+    rejectDownvotes: number;
+    scenes: ScenePlannerOptions;
+    timeoutMs: number;
+  };
+  imageCache: ImageCacheOptions;
+  imageGen: {
+    limits: Limits;
+    options: ImageGeneratorOptions;
+    provider: ImageGeneratorProvider;
+  };
+  lyrics: {
+    lrcDirectory: string;
+    providers: LyricsProviderName[];
+  };
+  // everything Spotify is served by a local fake and images are drawn locally, so nothing needs the network
+  mock: boolean;
+  nodeEnv: string;
+  port: number;
+  prompt: {
+    contextLines: number;
+    defaultPreset: string;
+    negative: string;
+  };
+  quotas: QuotaLimits;
+  // where browsers reach us, Spotify redirects back to it after logging in
+  publicUrl: string;
+  spotify: {
+    // the accounts and Web API URLs the frontend talks to, which differ from ours in mock mode since we reach the fake locally
+    browserUrls: Pick<SpotifyUrls, 'accounts' | 'api'>;
+    clientId: string;
+    clientSecret: string;
+    dc: string | null;
+    urls: SpotifyUrls;
+  };
+  // how many reverse proxies are in front of us, so the client's IP is read from X-Forwarded-For
+  trustProxy: number;
+  videoExport: {
+    audioLimit: string;
+    ffmpegPath: string;
+  };
+}
+
+// collects every problem rather than stopping at the first, so they can all be fixed in one go
+class EnvReader {
+  _env: NodeJS.ProcessEnv;
+  errors: string[] = [];
+
+  constructor(env: NodeJS.ProcessEnv) {
+    this._env = env;
+  }
+
+  boolean(name: string, defaultValue: boolean) {
+    const value = this._env[name];
+    if (value === undefined) {
+      return defaultValue;
+    }
+
+    if (!['true', 'false'].includes(value)) {
+      this.errors.push(`${name} must be "true" or "false", got "${value}"`);
+      return defaultValue;
+    }
+
+    return value === 'true';
+  }
+
+  integer(name: string, defaultValue: number, min = 0) {
+    const value = this._env[name];
+    if (value === undefined) {
+      return defaultValue;
+    }
+
+    const parsed = parseInt(value, 10);
+    if (!/^\d+$/.test(value.trim()) || parsed < min) {
+      this.errors.push(`${name} must be a whole number of at least ${min}, got "${value}"`);
+      return defaultValue;
+    }
+
+    return parsed;
+  }
+
+  list<T extends string>(name: string, values: readonly T[], defaultValue: T[]) {
+    const value = this._env[name];
+    if (value === undefined) {
+      return defaultValue;
+    }
+
+    const items = value.split(',').map((item) => item.trim()) as T[];
+    const invalidItem = items.find((item) => !values.includes(item));
+    if (invalidItem !== undefined) {
+      this.errors.push(`${name} must be a comma separated list of ${values.join(', ')}, got "${invalidItem}"`);
+      // keeping the valid ones means the errors that depend on them still make sense
+      return items.filter((item) => values.includes(item));
+    }
+
+    return items;
+  }
+
+  oneOf<T extends string>(name: string, values: readonly T[], defaultValue: T) {
+    const value = this._env[name];
+    if (value === undefined) {
+      return defaultValue;
+    }
+
+    if (!values.includes(value as T)) {
+      this.errors.push(`${name} must be one of ${values.join(', ')}, got "${value}"`);
+      return defaultValue;
+    }
+
+    return value as T;
+  }
+
+  optional(name: string) {
+    return this._env[name] || null;
+  }
+
+  required(name: string, reason = '') {
+    const value = this._env[name];
+    if (!value) {
+      this.errors.push(`${name} must be set${reason}`);
+      return '';
+    }
+
+    return value;
+  }
+
+  string(name: string, defaultValue: string) {
+    return this._env[name] ?? defaultValue;
+  }
+
+  // comes back without a trailing slash so paths can be appended
+  url(name: string, defaultValue: string) {
+    const value = this._env[name] ?? defaultValue;
+    try {
+      const { protocol } = new URL(value);
+      if (!['http:', 'https:'].includes(protocol)) {
+        throw new Error(`unsupported protocol ${protocol}`);
+      }
+    } catch (error) {
+      this.errors.push(`${name} must be an http or https URL, got "${value}"`);
+    }
+
+    return value.replace(/\/+$/, '');
+  }
+}
+
+function readDbConfig(reader: EnvReader): DbConfig {
+  const [host, port] = reader.string('DB_HOST', 'localhost').split(':');
+  const parsedPort = parseInt(port ?? '3306', 10);
+  if (!(parsedPort > 0)) {
+    reader.errors.push(`DB_HOST must be a host name with an optional port, got "${host}:${port}"`);
+  }
+
+  return {
+    driver: reader.oneOf('DB_DRIVER', STORAGE_DRIVERS, 'mysql'),
+    migrateOnStart: reader.boolean('DB_MIGRATE_ON_START', true),
+    storage: {
+      mysql: {
+        database: reader.string('DB_NAME', 'literal_visualiser'),
+        host,
+        password: reader.string('DB_PASS', ''),
+        port: parsedPort,
+        user: reader.string('DB_USER', 'root')
+      },
+      sqliteFile: path.resolve(reader.string('DB_FILE', 'data/literal_visualiser.sqlite'))
+    }
+  };
+}
+
+function readImageCacheConfig(reader: EnvReader): ImageCacheOptions {
+  return {
+    eviction: reader.oneOf('IMAGE_CACHE_EVICTION', IMAGE_EVICTION_ORDERS, 'lru'),
+    intervalMs: reader.integer('IMAGE_CACHE_INTERVAL_MS', 60 * 60 * 1000),
+    maxBytes: reader.integer('IMAGE_CACHE_MAX_MB', 0) * 1024 * 1024
+  };
+}
+
+// logs everything wrong and exits, there's no point starting with half a configuration
+function exitOnErrors(reader: EnvReader) {
+  if (reader.errors.length > 0) {
+    logger.error('invalid configuration', {
+      errors: reader.errors
+    });
+    process.exit(1);
+  }
+}
+
+// just the database settings, for the command line scripts
+export function loadDbConfig(env = process.env) {
+  const reader = new EnvReader(env);
+  const dbConfig = readDbConfig(reader);
+  exitOnErrors(reader);
+  return dbConfig;
+}
+
+// the database and image cache settings, for `yarn images`
+export function loadImageCacheConfig(env = process.env) {
+  const reader = new EnvReader(env);
+  const dbConfig = readDbConfig(reader);
+  const imageCacheConfig = readImageCacheConfig(reader);
+  exitOnErrors(reader);
+  return {
+    db: dbConfig,
+    imageCache: imageCacheConfig
+  };
+}
+
+export function loadConfig(env = process.env): Config {
+  const reader = new EnvReader(env);
+  const nodeEnv = reader.string('NODE_ENV', 'development');
+  const port = reader.integer('PORT', 8080);
+  // the live deployment used to be hardcoded, anyone else running in production needs to say where they are
+  const publicUrl = nodeEnv === 'production' && !env.PUBLIC_URL ? reader.required('PUBLIC_URL', ' in production') : reader.url('PUBLIC_URL', `http://localhost:${port}`);
+  // the frontend dev server runs on its own port, in production the frontend comes from us
+  const appUrl = nodeEnv === 'production' && !env.APP_URL ? publicUrl : reader.url('APP_URL', 'http://localhost:3000');
+
+  // mock mode fills in everything that would otherwise need a real account or service
+  const mock = reader.boolean('MOCK_MODE', false);
+  const mockSpotifyUrl = `http://localhost:${port}${MOCK_SPOTIFY_PATH}`;
+  const spotifyUrls: SpotifyUrls = mock ? {
+    accounts: mockSpotifyUrl,
+    api: mockSpotifyUrl,
+    lyrics: mockSpotifyUrl,
+    web: mockSpotifyUrl
+  } : {
+    accounts: 'https://accounts.spotify.com',
+    api: 'https://api.spotify.com',
+    lyrics: 'https://spclient.wg.spotify.com',
+    web: 'https://open.spotify.com'
+  };
+
+  const lyricsProviders = reader.list('LYRICS_PROVIDERS', LYRICS_PROVIDERS, ['database', 'spotify']);
+  const spotifyDc = mock ? reader.string('SPOTIFY_DC', 'mock') : lyricsProviders.includes('spotify') ? reader.required('SPOTIFY_DC', ' when using the spotify lyrics provider') : reader.optional('SPOTIFY_DC');
+
+  const imageGenProvider = reader.oneOf('IMAGE_GEN_PROVIDER', IMAGE_GENERATOR_PROVIDERS, mock ? 'stub' : 'basic');
+  const imageGenUrl = ['openai', 'stub'].includes(imageGenProvider) ? reader.optional('IMAGE_GEN_URL') : reader.required('IMAGE_GEN_URL', ` for the ${imageGenProvider} image generation provider`);
+  if (imageGenUrl) {
+    reader.url('IMAGE_GEN_URL', imageGenUrl);
+  }
+  const defaultProviderLimits = DEFAULT_PROVIDER_LIMITS[imageGenProvider];
+
+  const defaultPreset = reader.string('PROMPT_DEFAULT_PRESET', 'none');
+  if (!(defaultPreset in STYLE_PRESETS)) {
+    reader.errors.push(`PROMPT_DEFAULT_PRESET must be one of ${Object.keys(STYLE_PRESETS).join(', ')}, got "${defaultPreset}"`);
+  }
+
+  const audioLimit = reader.string('EXPORT_AUDIO_LIMIT', '50mb');
+  if (!SIZE_LIMIT_REGEX.test(audioLimit)) {
+    reader.errors.push(`EXPORT_AUDIO_LIMIT must be a size like "50mb", got "${audioLimit}"`);
+  }
+
+  const config: Config = {
+    adminToken: reader.optional('ADMIN_TOKEN'),
+    appUrl,
+    db: readDbConfig(reader),
+    generation: {
+      backoff: {
+        baseDelayMs: reader.integer('IMAGE_GEN_BACKOFF_BASE_MS', 1000, 1),
+        maxDelayMs: reader.integer('IMAGE_GEN_BACKOFF_MAX_MS', 60 * 1000, 1),
+        maxRetries: reader.integer('IMAGE_GEN_MAX_RETRIES', 3)
+      },
+      concurrentJobs: reader.integer('GENERATION_CONCURRENT_JOBS', 1, 1),
+      drainTimeoutMs: reader.integer('GENERATION_DRAIN_TIMEOUT_MS', 25000),
+      interludes: {
+        minGapMs: reader.integer('INTERLUDE_MIN_GAP_MS', 10000),
+        visual: reader.oneOf('INTERLUDE_VISUAL', INTERLUDE_VISUALS, 'mood')
+      },
+      limits: {
+        maxConcurrent: reader.integer('GENERATION_MAX_CONCURRENT', 0),
+        requestsPerMinute: reader.integer('GENERATION_REQUESTS_PER_MINUTE', 0)
+      },
+      rejectDownvotes: reader.integer('IMAGE_REJECT_DOWNVOTES', 3, 1),
+      scenes: {
+        maxShotMs: reader.integer('SCENE_MAX_SHOT_MS', 10000),
+        minSceneMs: reader.integer('SCENE_MIN_MS', 2500)
+      },
+      timeoutMs: reader.integer('GENERATION_TIMEOUT_MS', 5000, 1000)
+    },
+    imageCache: readImageCacheConfig(reader),
+    imageGen: {
+      limits: {
+        maxConcurrent: reader.integer('IMAGE_GEN_MAX_CONCURRENT', defaultProviderLimits.maxConcurrent),
+        requestsPerMinute: reader.integer('IMAGE_GEN_REQUESTS_PER_MINUTE', defaultProviderLimits.requestsPerMinute)
+      },
+      options: {
+        apiKey: reader.optional('IMAGE_GEN_API_KEY') ?? undefined,
+        count: reader.integer('IMAGE_GEN_COUNT', 1, 1),
+        format: reader.oneOf('IMAGE_GEN_FORMAT', IMAGE_FORMATS, 'jpeg'),
+        height: reader.integer('IMAGE_GEN_HEIGHT', 512, 1),
+        model: reader.optional('IMAGE_GEN_MODEL') ?? undefined,
+        url: imageGenUrl ?? undefined,
+        width: reader.integer('IMAGE_GEN_WIDTH', 512, 1),
+        workflowPath: (imageGenProvider === 'comfyui' ? reader.required('IMAGE_GEN_WORKFLOW', ' for the comfyui image generation provider') : reader.optional('IMAGE_GEN_WORKFLOW')) ?? undefined
+      },
+      provider: imageGenProvider
+    },
+    lyrics: {
+      lrcDirectory: path.resolve(reader.string('LYRICS_LRC_DIR', 'lrc')),
+      providers: lyricsProviders
+    },
+    mock,
+    nodeEnv,
+    port,
+    prompt: {
+      contextLines: reader.integer('PROMPT_CONTEXT_LINES', 1),
+      defaultPreset,
+      negative: reader.string('PROMPT_NEGATIVE', '')
+    },
+    quotas: {
+      concurrentExports: reader.integer('QUOTA_CONCURRENT_EXPORTS', 2),
+      concurrentGenerations: reader.integer('QUOTA_CONCURRENT_GENERATIONS', 2),
+      dailyImagesPerIp: reader.integer('QUOTA_DAILY_IMAGES_PER_IP', 1000),
+      dailyImagesPerUser: reader.integer('QUOTA_DAILY_IMAGES_PER_USER', 300),
+      maxUncachedLines: reader.integer('QUOTA_MAX_UNCACHED_LINES', 100)
+    },
+    publicUrl,
+    spotify: {
+      browserUrls: mock ? {
+        accounts: `${publicUrl}${MOCK_SPOTIFY_PATH}`,
+        api: `${publicUrl}${MOCK_SPOTIFY_PATH}`
+      } : {
+        accounts: spotifyUrls.accounts,
+        api: spotifyUrls.api
+      },
+      clientId: mock ? reader.string('SPOTIFY_CLIENT_ID', 'mock') : reader.required('SPOTIFY_CLIENT_ID'),
+      clientSecret: mock ? reader.string('SPOTIFY_CLIENT_SECRET', 'mock') : reader.required('SPOTIFY_CLIENT_SECRET'),
+      dc: spotifyDc,
+      urls: spotifyUrls
+    },
+    trustProxy: reader.integer('TRUST_PROXY', 0),
+    videoExport: {
+      audioLimit,
+      ffmpegPath: reader.string('FFMPEG_PATH', 'ffmpeg')
+    }
+  };
+  exitOnErrors(reader);
+  return config;
+}
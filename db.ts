@@ -0,0 +1,7 @@
+import { DbConfig, loadDbConfig } from './config';
+import { createStorage } from './storage';
+
+// shared by the server and the command line scripts, which only need the DB_* environment variables
+export function createDbStorage({ driver, storage }: DbConfig = loadDbConfig()) {
+  return createStorage(driver, storage);
+}
@@ -0,0 +1,35 @@
+import { Response } from 'express';
+
+const KEEPALIVE_INTERVAL_MS = 15000;
+
+export interface EventStream {
+  close(): void;
+  send(event: string, data: unknown): void;
+}
+
+// turns a response into a Server-Sent Events stream, onClose runs once however the stream ends
+export function openEventStream(res: Response, onClose: () => void): EventStream {
+  res.writeHead(200, {
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'Content-Type': 'text/event-stream'
+  });
+  const keepAliveInterval = setInterval(() => res.write(': keepalive\n\n'), KEEPALIVE_INTERVAL_MS);
+  res.on('close', () => {
+    clearInterval(keepAliveInterval);
+    onClose();
+  });
+
+  return {
+    close() {
+      if (!res.writableEnded) {
+        res.end();
+      }
+    },
+    send(event, data) {
+      if (!res.writableEnded) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    }
+  };
+}
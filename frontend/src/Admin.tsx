@@ -0,0 +1,311 @@
+import { Component, FormEvent } from 'react';
+
+import toast, { Toaster } from 'react-hot-toast';
+
+import { API_URL } from './util/api';
+
+import './Admin.scss';
+
+interface AdminImage {
+  createdAt: string;
+  downvotes: number;
+  id: string;
+  saved: boolean;
+  thumbnailUrl: string;
+  upvotes: number;
+  url: string;
+}
+
+interface AdminTrack {
+  imageCount: number;
+  lineCount: number;
+  trackId: string;
+}
+
+interface AdminTrackDetails {
+  lines: {
+    images: AdminImage[];
+    startTimeMs: number;
+    words: string;
+  }[];
+  otherImages: AdminImage[];
+  trackId: string;
+}
+
+interface Props {}
+
+interface State {
+  offset: number;
+  selectedTrack: AdminTrackDetails | null;
+  token: string;
+  tokenInput: string;
+  total: number;
+  tracks: AdminTrack[] | null;
+}
+
+const PAGE_SIZE = 50;
+// kept for the tab's lifetime only, it's a lot of power to leave lying around
+const STORAGE_KEY_ADMIN_TOKEN = 'adminToken';
+
+function formatTime(timeMs: number) {
+  const seconds = Math.floor(timeMs / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+class Admin extends Component<Props, State> {
+  constructor(props: Props) {
+    super(props);
+
+    this.state = {
+      offset: 0,
+      selectedTrack: null,
+      token: sessionStorage.getItem(STORAGE_KEY_ADMIN_TOKEN) ?? '',
+      tokenInput: '',
+      total: 0,
+      tracks: null
+    };
+
+    this.handleLogout = this.handleLogout.bind(this);
+    this.handleTokenSubmit = this.handleTokenSubmit.bind(this);
+  }
+
+  componentDidMount() {
+    document.title = 'Admin - Literal Visualiser';
+    if (this.state.token) {
+      this.fetchTracks(0);
+    }
+  }
+
+  // resolves to null when the token isn't accepted, after logging out so it can be entered again
+  async fetchAdmin(path: string, init: RequestInit = {}) {
+    const response = await fetch(`${API_URL}/admin${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${this.state.token}`
+      }
+    });
+    if (response.status === 401) {
+      toast.error('That admin token wasn\'t accepted.');
+      this.handleLogout();
+      return null;
+    }
+
+    return response;
+  }
+
+  async fetchTracks(offset: number) {
+    try {
+      const response = await this.fetchAdmin(`/tracks?${new URLSearchParams({ limit: PAGE_SIZE.toString(), offset: offset.toString() })}`);
+      if (!response) {
+        return;
+      } else if (!response.ok) {
+        throw new Error(`tracks responded with ${response.status}`);
+      }
+
+      const { total, tracks } = await response.json();
+      this.setState({
+        offset,
+        total,
+        tracks
+      });
+    } catch (error) {
+      console.error(error);
+      toast.error('Sorry, something went wrong loading the tracks.');
+    }
+  }
+
+  async handleDeleteImage(imageId: string) {
+    if (!window.confirm('Delete this image? It won\'t be shown for this line again.')) {
+      return;
+    }
+
+    try {
+      const response = await this.fetchAdmin(`/images/${imageId}`, {
+        method: 'DELETE'
+      });
+      if (!response) {
+        return;
+      } else if (response.status === 409) {
+        toast.error('That image is in a saved visualisation, so it has to stay.');
+        return;
+      } else if (!response.ok) {
+        throw new Error(`delete image responded with ${response.status}`);
+      }
+
+      const removeImage = (images: AdminImage[]) => images.filter(({ id }) => id !== imageId);
+      this.setState(({ selectedTrack }) => ({
+        selectedTrack: selectedTrack && {
+          ...selectedTrack,
+          lines: selectedTrack.lines.map((line) => ({ ...line, images: removeImage(line.images) })),
+          otherImages: removeImage(selectedTrack.otherImages)
+        }
+      }));
+      toast.success('Deleted!');
+    } catch (error) {
+      console.error(error);
+      toast.error('Sorry, something went wrong deleting that image.');
+    }
+  }
+
+  handleLogout() {
+    sessionStorage.removeItem(STORAGE_KEY_ADMIN_TOKEN);
+    this.setState({
+      selectedTrack: null,
+      token: '',
+      tracks: null
+    });
+  }
+
+  async handlePurgeLyrics(trackId: string) {
+    if (!window.confirm('Purge the lyrics for this track? They\'ll be fetched again next time it\'s played.')) {
+      return;
+    }
+
+    try {
+      const response = await this.fetchAdmin(`/tracks/${trackId}/lyrics`, {
+        method: 'DELETE'
+      });
+      if (!response) {
+        return;
+      } else if (!response.ok && response.status !== 404) {
+        throw new Error(`purge lyrics responded with ${response.status}`);
+      }
+
+      toast.success('Purged!');
+      await this.selectTrack(trackId);
+      await this.fetchTracks(this.state.offset);
+    } catch (error) {
+      console.error(error);
+      toast.error('Sorry, something went wrong purging those lyrics.');
+    }
+  }
+
+  handleTokenSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const token = this.state.tokenInput.trim();
+    if (!token) {
+      return;
+    }
+
+    sessionStorage.setItem(STORAGE_KEY_ADMIN_TOKEN, token);
+    this.setState({
+      token,
+      tokenInput: ''
+    }, () => this.fetchTracks(0));
+  }
+
+  async selectTrack(trackId: string) {
+    try {
+      const response = await this.fetchAdmin(`/tracks/${trackId}`);
+      if (!response) {
+        return;
+      } else if (response.status === 404) {
+        // nothing left cached for it
+        this.setState({
+          selectedTrack: null
+        });
+        return;
+      } else if (!response.ok) {
+        throw new Error(`track responded with ${response.status}`);
+      }
+
+      this.setState({
+        selectedTrack: await response.json()
+      });
+    } catch (error) {
+      console.error(error);
+      toast.error('Sorry, something went wrong loading that track.');
+    }
+  }
+
+  render() {
+    const { offset, selectedTrack, token, tokenInput, total, tracks } = this.state;
+
+    return (
+      <div className="Admin">
+        <Toaster />
+        <div className="heading">
+          Admin
+          {token && <button onClick={this.handleLogout}>Log Out</button>}
+        </div>
+        {!token && (
+          <form className="login" onSubmit={this.handleTokenSubmit}>
+            <input autoFocus onChange={(event) => this.setState({ tokenInput: event.target.value })} placeholder="Admin Token" type="password" value={tokenInput} />
+            <button type="submit">Log In</button>
+          </form>
+        ) || selectedTrack && (
+          <div className="track">
+            <div className="actions">
+              <button onClick={() => this.setState({ selectedTrack: null })}>Back</button>
+              <a href={`https://open.spotify.com/track/${selectedTrack.trackId}`} rel="noreferrer" target="_blank">{selectedTrack.trackId}</a>
+              <button className="danger" disabled={selectedTrack.lines.length === 0} onClick={() => this.handlePurgeLyrics(selectedTrack.trackId)}>Purge Lyrics</button>
+            </div>
+            {selectedTrack.lines.map(({ images, startTimeMs, words }) => (
+              <div className="line" key={startTimeMs}>
+                <div className="words"><span className="time">{formatTime(startTimeMs)}</span> {words}</div>
+                {this.renderImages(images)}
+              </div>
+            ))}
+            {selectedTrack.otherImages.length > 0 && (
+              <div className="line">
+                <div className="words">Not matching a current line</div>
+                {this.renderImages(selectedTrack.otherImages)}
+              </div>
+            )}
+          </div>
+        ) || tracks && (
+          <div className="tracks">
+            <table>
+              <thead>
+                <tr>
+                  <th>Track</th>
+                  <th>Lines</th>
+                  <th>Images</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tracks.map(({ imageCount, lineCount, trackId }) => (
+                  <tr key={trackId} onClick={() => this.selectTrack(trackId)}>
+                    <td>{trackId}</td>
+                    <td>{lineCount}</td>
+                    <td>{imageCount}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {tracks.length === 0 && <div className="empty">Nothing cached yet</div>}
+            <div className="pagination">
+              <button disabled={offset === 0} onClick={() => this.fetchTracks(Math.max(offset - PAGE_SIZE, 0))}>Previous</button>
+              {total > 0 && `${offset + 1}-${offset + tracks.length} of ${total}`}
+              <button disabled={offset + PAGE_SIZE >= total} onClick={() => this.fetchTracks(offset + PAGE_SIZE)}>Next</button>
+            </div>
+          </div>
+        ) || (
+          <div className="empty">Loading...</div>
+        )}
+      </div>
+    );
+  }
+
+  renderImages(images: AdminImage[]) {
+    if (images.length === 0) {
+      return <div className="empty">No images</div>;
+    }
+
+    return (
+      <div className="images">
+        {images.map(({ downvotes, id, saved, thumbnailUrl, upvotes, url }) => (
+          <div className="image" key={id}>
+            <a href={`${API_URL}${url}`} rel="noreferrer" target="_blank">
+              <img alt="" loading="lazy" src={`${API_URL}${thumbnailUrl}`} />
+            </a>
+            <div className="votes">&#128077; {upvotes} &#128078; {downvotes}</div>
+            <button disabled={saved} onClick={() => this.handleDeleteImage(id)} title={saved ? 'This image is in a saved visualisation' : 'Delete this image'}>Delete</button>
+          </div>
+        ))}
+      </div>
+    );
+  }
+}
+
+export default Admin;
@@ -1,10 +1,15 @@
-import { Component, FormEvent, RefObject, createRef } from 'react';
+import { ChangeEvent as InputChangeEvent, Component, FormEvent, RefObject, createRef } from 'react';
 
 import debounce from 'lodash.debounce';
 import Autosuggest, { ChangeEvent, SuggestionsFetchRequestedParams } from 'react-autosuggest';
 import toast, { Toaster } from 'react-hot-toast';
 
 import './types/spotify-web-playback-sdk'
+import LyricsEditor from './LyricsEditor';
+import { API_URL } from './util/api';
+import MockPlayer, { Player } from './util/mockPlayer';
+import { generateCodeVerifier, generateState, getCodeChallenge } from './util/pkce';
+import { getQuotaMessage } from './util/quota';
 import waitUntil from './util/waitUntil';
 
 import './App.scss';
@@ -18,12 +23,49 @@ interface Song {
   title: string;
 }
 
+type Interlude = 'albumArt' | 'mood' | 'pan';
+
 type Lyrics = {
-  imageUri: string;
+  imageId: string;
+  imageUrl: string;
+  // set for an instrumental break, which has no words
+  interlude: Interlude | null;
+  // consecutive lines in the same scene share an image, which only fades in when the scene starts
+  sceneIndex: number;
   startTimeMs: number;
   words: string;
 }[];
 
+type VideoExport = {
+  status: 'waiting'
+  queuePosition: number;
+} | {
+  status: 'inProgress';
+  done: number;
+  total: number;
+} | {
+  status: 'error';
+} | {
+  status: 'done';
+  downloadUrl: string;
+};
+
+type Generation = {
+  status: 'waiting'
+  queuePosition: number;
+} | {
+  status: 'inProgress';
+  done: number;
+  total: number;
+} | {
+  status: 'error';
+} | {
+  status: 'cancelled';
+} | {
+  status: 'done';
+  lyrics: Lyrics;
+};
+
 interface AccessDetails {
   accessToken: string;
   expiresAt: number;
@@ -35,63 +77,96 @@ interface Props {}
 interface State {
   accessDetails: AccessDetails | null;
   clientId: string;
-  clientSecret: string;
-  currentLyric: { imageUri: string; words: string; } | null;
+  currentLyric: { imageId: string; imageUrl: string; index: number; interlude: Interlude | null; sceneIndex: number; words: string; } | null;
   defaultClientId: string;
+  editingLyrics: boolean;
+  exporting: boolean;
+  generationId: string | null;
   hideSuggestions: boolean;
   isError: boolean;
   lyricsDivKey: number;
+  mock: boolean;
   pauseOnBlur: boolean;
   progress: number | null;
   queuePosition: number;
+  ratings: Record<string, 1 | -1>;
+  redirectUri: string;
+  regenerating: boolean;
   search: string;
   searchDebounceTimeout: number | null;
   searchInFlight: boolean;
   selectedSong: Song | null;
   songs: Song[];
+  spotifyAccountsUrl: string;
+  spotifyApiUrl: string;
+  stylePreset: string;
+  stylePresets: string[];
 }
 
-const isDev = process.env.NODE_ENV === 'development';
-const API_URL = isDev ? `http://${window.location.hostname}:8080` : '';
-const REDIRECT_URI = encodeURIComponent(`${isDev ? API_URL : 'https://literalvisualiser.com'}/post_message`);
-
 const SEARCH_DEBOUNCE_INTERVAL = 500;
 const STORAGE_KEY_ACCESS_DETAILS = 'spotifyAccessDetails';
 const STORAGE_KEY_CLIENT_ID = 'clientId';
 const STORAGE_KEY_CLIENT_SECRET = 'clientSecret';
 const STORAGE_KEY_PAUSE_ON_BLUR = 'pauseOnBlur';
+const STORAGE_KEY_STYLE_PRESET = 'stylePreset';
 
 class App extends Component<Props, State> {
+  audioInputRef: RefObject<HTMLInputElement> = createRef();
   autosuggestRef: RefObject<Autosuggest> = createRef();
+  // the Spotify URLs come from it, so anything talking to Spotify waits for it
+  configLoaded = Promise.resolve();
   debouncePromise = Promise.resolve();
   deviceId: string | null = null;
+  lyrics: Lyrics = [];
   lyricsImageRef: RefObject<HTMLImageElement> = createRef();
-  player: Spotify.Player | null = null;
+  // the login window in flight, the code it sends back has to come with this state
+  pendingAuth: { codeVerifier: string | null; state: string; } | null = null;
+  player: Player | null = null;
 
   constructor(props: Props) {
     super(props);
 
+    // secrets used to be kept here, PKCE doesn't need one, and tokens from them can't be refreshed without it
+    if (localStorage.getItem(STORAGE_KEY_CLIENT_SECRET) !== null) {
+      localStorage.removeItem(STORAGE_KEY_ACCESS_DETAILS);
+      localStorage.removeItem(STORAGE_KEY_CLIENT_SECRET);
+    }
     const accessDetailsString = localStorage.getItem(STORAGE_KEY_ACCESS_DETAILS);
     this.state = {
       accessDetails: accessDetailsString && JSON.parse(accessDetailsString),
       clientId: localStorage.getItem(STORAGE_KEY_CLIENT_ID) ?? '',
-      clientSecret: localStorage.getItem(STORAGE_KEY_CLIENT_SECRET) ?? '',
       currentLyric: null,
       defaultClientId: '',
+      editingLyrics: false,
+      exporting: false,
+      generationId: null,
       hideSuggestions: false,
       isError: false,
       lyricsDivKey: Date.now(),
+      mock: false,
       pauseOnBlur: localStorage.getItem(STORAGE_KEY_PAUSE_ON_BLUR) !== 'false',
       progress: null,
       queuePosition: -1,
+      ratings: {},
+      redirectUri: '',
+      regenerating: false,
       search: '',
       searchDebounceTimeout: null,
       searchInFlight: false,
       selectedSong: null,
-      songs: []
+      songs: [],
+      spotifyAccountsUrl: '',
+      spotifyApiUrl: '',
+      stylePreset: localStorage.getItem(STORAGE_KEY_STYLE_PRESET) ?? '',
+      stylePresets: []
     };
 
     this.handleAuth = this.handleAuth.bind(this);
+    this.handleCancel = this.handleCancel.bind(this);
+    this.handleExport = this.handleExport.bind(this);
+    this.handleExportAudioChange = this.handleExportAudioChange.bind(this);
+    this.handleRegenerate = this.handleRegenerate.bind(this);
+    this.handleSave = this.handleSave.bind(this);
     this.handleLogout = this.handleLogout.bind(this);
     this.handleSearchChange = this.handleSearchChange.bind(this);
     this.handleSuggestionsFetchRequested = this.handleSuggestionsFetchRequested.bind(this);
@@ -101,53 +176,69 @@ class App extends Component<Props, State> {
 
   async componentDidMount() {
     this.setPageTitle();
-    this.fetchDefaultClientId();
+    this.configLoaded = this.fetchConfig();
+    this.fetchStylePresets();
 
     window.addEventListener('message', this.handleWindowMessage, false);
     window.addEventListener('resize', this.handleWindowResize, false);
 
     const accessToken = await this.getAccessToken();
     if (accessToken) {
-      const script = document.createElement('script');
-      script.src = 'https://sdk.scdn.co/spotify-player.js';
-      script.async = true;
-      document.body.appendChild(script);
-
-      if (typeof window.onSpotifyWebPlaybackSDKReady !== 'function') {
-        let initialised = false;
-        window.onSpotifyWebPlaybackSDKReady = () => {
-          if (initialised) {
-            return;
-          }
-
-          initialised = true;
-
-          this.player = new window.Spotify.Player({
-            name: 'Literal Visualiser',
-            getOAuthToken: (callback) => {
-              callback(accessToken);
+      await this.configLoaded;
+      if (this.state.mock) {
+        // nothing to load, and no Premium account needed
+        this.connectPlayer(new MockPlayer(this.state.spotifyApiUrl, () => this.getAccessToken()));
+      } else {
+        const script = document.createElement('script');
+        script.src = 'https://sdk.scdn.co/spotify-player.js';
+        script.async = true;
+        document.body.appendChild(script);
+
+        if (typeof window.onSpotifyWebPlaybackSDKReady !== 'function') {
+          let initialised = false;
+          window.onSpotifyWebPlaybackSDKReady = () => {
+            if (initialised) {
+              return;
             }
-          });
 
-          // https://community.spotify.com/t5/Spotify-for-Developers/Web-Playback-SDK-Playing-song-directly-in-browser-issues-IOS/m-p/5539654/highlight/true#M8798
-          window.addEventListener('click', () => this.player?.activateElement(), {
-            once: true
-          });
+            initialised = true;
 
-          this.player.on('initialization_error', console.error);
-          this.player.on('authentication_error', console.error);
-          this.player.on('account_error', console.error);
-          this.player.on('playback_error', console.error);
-          this.player.on('ready', (data: any) => {
-            this.deviceId = data.device_id;
-          });
+            this.connectPlayer(new window.Spotify.Player({
+              name: 'Literal Visualiser',
+              getOAuthToken: (callback) => {
+                callback(accessToken);
+              }
+            }));
+          };
+        }
+      }
 
-          this.player.connect();
-        };
+      const visualisationId = window.location.pathname.match(/^\/v\/([^/]+)$/)?.[1];
+      if (visualisationId) {
+        this.loadVisualisation(visualisationId);
       }
     }
   }
 
+  connectPlayer(player: Player) {
+    this.player = player;
+
+    // https://community.spotify.com/t5/Spotify-for-Developers/Web-Playback-SDK-Playing-song-directly-in-browser-issues-IOS/m-p/5539654/highlight/true#M8798
+    window.addEventListener('click', () => this.player?.activateElement(), {
+      once: true
+    });
+
+    player.on('initialization_error', console.error);
+    player.on('authentication_error', console.error);
+    player.on('account_error', console.error);
+    player.on('playback_error', console.error);
+    player.on('ready', (data: any) => {
+      this.deviceId = data.device_id;
+    });
+
+    player.connect();
+  }
+
   componentWillUnmount() {
     window.removeEventListener('message', this.handleWindowMessage, false);
     window.removeEventListener('resize', this.handleWindowResize, false);
@@ -182,7 +273,7 @@ class App extends Component<Props, State> {
     });
 
     try {
-      const response = await fetch(`https://api.spotify.com/v1/search?q=${trimmedSearch.replace(/\s/g, '+')}&type=track`, {
+      const response = await fetch(`${this.state.spotifyApiUrl}/v1/search?q=${trimmedSearch.replace(/\s/g, '+')}&type=track`, {
         headers: {
           Authorization: `Bearer ${accessToken}`
         }
@@ -227,155 +318,189 @@ class App extends Component<Props, State> {
     }
   }
 
-  async generate(id: string) {
+  async generate({ artists, id, title }: Song) {
     try {
-      const generateResponse = await fetch(`${API_URL}/generate/${id}`);
+      const params = new URLSearchParams({
+        artists,
+        title
+      });
+      if (this.state.stylePreset) {
+        params.set('preset', this.state.stylePreset);
+      }
+      const generateResponse = await fetch(`${API_URL}/generate/${id}?${params}`, {
+        headers: {
+          Authorization: `Bearer ${await this.getAccessToken()}`
+        }
+      });
       if (generateResponse.status === 422) {
         toast.error('Sorry, lyrics are not available for that song.');
         return;
+      } else if (generateResponse.status === 429) {
+        toast.error(getQuotaMessage(await generateResponse.json()));
+        return;
       } else if (!generateResponse.ok) {
         this.setError();
         return;
       }
 
+      const { generationId } = await generateResponse.json();
       this.setState({
+        generationId,
         progress: 0
       });
 
-      const { generationId } = await generateResponse.json();
       let lyrics: Lyrics = [];
-      const accessToken = await this.getAccessToken();
       let isError = false;
-      await waitUntil(async () => {
-        const pollResponse = await fetch(`${API_URL}/poll/${generationId}`);
-        if (!pollResponse.ok) {
-          isError = true;
-          this.setError();
-          return true;
-        }
-
-        const pollJson = await pollResponse.json();
-        if (pollJson.status === 'waiting') {
-          const { queuePosition } = pollJson;
-          this.setState({
-            queuePosition
-          });
-          this.setPageTitle(`#${queuePosition}`);
-        }
-        if (pollJson.status === 'inProgress') {
-          const progress = pollJson.done / pollJson.total;
-          this.setState({
-            progress,
-            queuePosition: -1
-          });
-          this.setPageTitle(`${(progress * 100).toFixed(2)}%`);
-          return false;
-        }
-
-        if (pollJson.status === 'error') {
-          isError = true;
-          this.setError();
-          return true;
-        }
-
-        if (pollJson.status === 'done') {
-          lyrics = pollJson.lyrics;
-          return true;
+      await this.watchGeneration(generationId, (generation) => {
+        switch (generation.status) {
+          case 'waiting':
+            this.setState({
+              queuePosition: generation.queuePosition
+            });
+            this.setPageTitle(`#${generation.queuePosition}`);
+            return false;
+          case 'inProgress':
+            this.setProgress(generation.done / generation.total);
+            return false;
+          case 'done':
+            lyrics = generation.lyrics;
+            return true;
+          case 'cancelled':
+            // if we didn't cancel it ourselves, it was dropped by the server
+            if (this.state.generationId === generationId) {
+              isError = true;
+              this.setError();
+            }
+            return true;
+          default:
+            isError = true;
+            this.setError();
+            return true;
         }
-      }, 1000); // 1 poll per second, no timeout
-      if (isError) {
+      });
+      if (isError || this.state.generationId !== generationId) {
         return;
       }
-      this.setState({
-        progress: 1
-      });
-      if (!document.hasFocus()) {
-        this.setPageTitle('Ready');
-        await new Promise<void>((resolve) => {
-          window.addEventListener('focus', () => resolve(), {
-            once: true
-          });
-        });
+      await this.preloadImages(lyrics);
+      if (this.state.generationId !== generationId) {
+        return;
       }
-      this.setPageTitle('Playing');
-      await fetch(`https://api.spotify.com/v1/me/player/play?device_id=${this.deviceId}`, {
-        body: JSON.stringify({
-          uris: [`spotify:track:${id}`]
-        }),
+      await this.play(id, lyrics);
+    } catch (error) {
+      console.error(error);
+      this.setError();
+    }
+  }
+
+  // renders the current images and lyrics into a video on the server, with the song's audio if the user has a copy
+  async exportVideo(audio: File | null) {
+    const { generationId } = this.state;
+    if (!generationId) {
+      return;
+    }
+
+    this.setState({
+      exporting: true
+    });
+    const toastId = toast.loading('Exporting video...');
+    try {
+      const params = new URLSearchParams({
+        format: 'mp4',
+        generationId
+      });
+      const response = await fetch(`${API_URL}/exports?${params}`, {
+        body: audio,
         headers: {
-          Authorization: `Bearer ${accessToken}`
+          Authorization: `Bearer ${await this.getAccessToken()}`,
+          ...(audio ? {
+            'Content-Type': audio.type || 'audio/mpeg'
+          } : {})
         },
-        method: 'PUT'
+        method: 'POST'
       });
-      let paused = false;
-      let pausedOnce = false;
-      let lyricTimeouts: number[] = [];
-      this.player?.on('player_state_changed', (state: any) => {
-        console.log('player_stated_changed', {
-          state
+      if (response.status === 429) {
+        toast.error(getQuotaMessage(await response.json()), {
+          id: toastId
         });
+        return;
+      } else if (!response.ok) {
+        throw new Error(`export responded with ${response.status}`);
+      }
 
-        paused = !state || state.paused;
-
-        if (paused) {
-          if (lyricTimeouts.length > 0) {
-            pausedOnce = true;
-            toast.success('Paused!');
-            this.setPageTitle('Paused');
-            lyricTimeouts.forEach((timeout) => {
-              clearTimeout(timeout);
-            });
-            lyricTimeouts = [];
-          }
-        } else if (lyricTimeouts.length === 0) {
-          const { position } = state;
-          if (pausedOnce) {
-            toast.success('Playing!');
-            this.setPageTitle('Playing');
-          }
-          lyricTimeouts = lyrics.filter(({ startTimeMs }) => startTimeMs > position).map(({ imageUri, startTimeMs, words }) => {
-            return window.setTimeout(() => {
-              this.setState({
-                currentLyric: { imageUri, words }
+      const { exportId } = await response.json();
+      const downloadUrl = await new Promise<string>((resolve, reject) => {
+        this.watchExport(exportId, (videoExport) => {
+          switch (videoExport.status) {
+            case 'waiting':
+              toast.loading(`Waiting to export... #${videoExport.queuePosition} in Queue`, {
+                id: toastId
               });
-            }, startTimeMs - position)
-          });
-        }
-      });
-      if (this.state.pauseOnBlur) {
-        let pausedByOnBlur = false;
-        window.addEventListener('blur', () => {
-          if (!paused) {
-            this.player?.pause();
-            pausedByOnBlur = true;
-          }
-        });
-        window.addEventListener('focus', () => {
-          if (pausedByOnBlur) {
-            pausedByOnBlur = false;
-            this.player?.resume();
+              return false;
+            case 'inProgress':
+              toast.loading(`Exporting video... ${Math.floor(videoExport.done / videoExport.total * 100)}%`, {
+                id: toastId
+              });
+              return false;
+            case 'error':
+              reject(new Error('export failed'));
+              return true;
+            case 'done':
+              resolve(`${API_URL}${videoExport.downloadUrl}`);
+              return true;
           }
-        });
-      }
+        }).catch(reject);
+      });
+      toast.success(() => (
+        <span>Your video is ready, <a href={downloadUrl}>download it here</a>.</span>
+      ), {
+        duration: Infinity,
+        id: toastId
+      });
     } catch (error) {
       console.error(error);
-      this.setError();
+      toast.error('Sorry, something went wrong exporting that.', {
+        id: toastId
+      });
+    } finally {
+      this.setState({
+        exporting: false
+      });
     }
   }
 
-  async fetchDefaultClientId() {
-    const response = await fetch(`${API_URL}/client_id`);
+  // the backend knows which domain it's deployed on, so nothing here needs to be built in
+  async fetchConfig() {
+    const response = await fetch(`${API_URL}/config`);
     if (!response.ok) {
       this.setError();
       return;
     }
 
-    const { clientId } = await response.json();
+    const { clientId, mock, redirectUri, spotifyAccountsUrl, spotifyApiUrl } = await response.json();
     this.setState({
-      defaultClientId: clientId
+      defaultClientId: clientId,
+      mock,
+      redirectUri,
+      spotifyAccountsUrl,
+      spotifyApiUrl
     });
   }
 
+  async fetchStylePresets() {
+    const response = await fetch(`${API_URL}/style_presets`);
+    if (!response.ok) {
+      this.setError();
+      return;
+    }
+
+    const { defaultPreset, presets } = await response.json();
+    this.setState(({ stylePreset }) => ({
+      // forget a preset the server no longer has
+      stylePreset: presets.includes(stylePreset) ? stylePreset : defaultPreset,
+      stylePresets: presets
+    }));
+  }
+
   async getAccessToken() {
     const { accessDetails } = this.state;
     if (!accessDetails) {
@@ -386,25 +511,37 @@ class App extends Component<Props, State> {
       return accessDetails.accessToken;
     }
 
-    const { accessToken, expiresIn } = await this.getAccessTokenFromRefreshToken(accessDetails.refreshToken);
+    const { accessToken, expiresIn, refreshToken } = await this.getAccessTokenFromRefreshToken(accessDetails.refreshToken);
     const newAccessDetails = { ...accessDetails };
     newAccessDetails.accessToken = accessToken;
     newAccessDetails.expiresAt = Date.now() + (expiresIn * 1000);
+    // PKCE refresh tokens are single use, Spotify sends a new one each time
+    newAccessDetails.refreshToken = refreshToken ?? accessDetails.refreshToken;
     localStorage.setItem(STORAGE_KEY_ACCESS_DETAILS, JSON.stringify(newAccessDetails));
     window.location.reload(); // TODO be more graceful
     return newAccessDetails.accessToken;
   }
 
-  async getAccessTokenFromCode(code: string): Promise<{ accessToken: string; expiresIn: number; refreshToken: string; }> {
-    const { clientId, clientSecret } = this.state;
-    if (clientId && clientSecret) {
-      const response = await fetch(`https://accounts.spotify.com/api/token?client_id=${clientId}&client_secret=${clientSecret}&code=${code}&grant_type=authorization_code&redirect_uri=${REDIRECT_URI}`, {
+  // with a code verifier it's our own client ID and PKCE, otherwise the backend swaps it using the default client's secret
+  async getAccessTokenFromCode(code: string, codeVerifier: string | null): Promise<{ accessToken: string; expiresIn: number; refreshToken: string; }> {
+    await this.configLoaded;
+    const { clientId, redirectUri, spotifyAccountsUrl } = this.state;
+    if (codeVerifier) {
+      const response = await fetch(`${spotifyAccountsUrl}/api/token`, {
+        body: new URLSearchParams({
+          client_id: clientId,
+          code,
+          code_verifier: codeVerifier,
+          grant_type: 'authorization_code',
+          redirect_uri: redirectUri
+        }),
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded'
         },
         method: 'POST'
       });
       if (!response.ok) {
+        this.setError();
         throw 'response not ok';
       }
       const { access_token, expires_in, refresh_token } = await response.json();
@@ -415,7 +552,15 @@ class App extends Component<Props, State> {
       };
     }
 
-    const response = await fetch(`${API_URL}/access_token_from_code?code=${code}`);
+    const response = await fetch(`${API_URL}/access_token_from_code`, {
+      body: JSON.stringify({
+        code
+      }),
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      method: 'POST'
+    });
     if (!response.ok) {
       this.setError();
       throw 'response not ok';
@@ -424,27 +569,42 @@ class App extends Component<Props, State> {
     return json;
   }
 
-  async getAccessTokenFromRefreshToken(refreshToken: string): Promise<{ accessToken: string; expiresIn: number; }> {
-    const { clientId, clientSecret } = this.state;
-    if (clientId && clientSecret) {
-      const response = await fetch(`https://accounts.spotify.com/api/token?client_id=${clientId}&client_secret=${clientSecret}&refresh_token=${refreshToken}&grant_type=refresh_token`, {
-        method: 'POST',
+  async getAccessTokenFromRefreshToken(refreshToken: string): Promise<{ accessToken: string; expiresIn: number; refreshToken?: string; }> {
+    await this.configLoaded;
+    const { clientId, spotifyAccountsUrl } = this.state;
+    if (clientId) {
+      const response = await fetch(`${spotifyAccountsUrl}/api/token`, {
+        body: new URLSearchParams({
+          client_id: clientId,
+          grant_type: 'refresh_token',
+          refresh_token: refreshToken
+        }),
         headers: {
           'Content-Type': 'application/x-www-form-urlencoded'
-        }
+        },
+        method: 'POST'
       });
       if (!response.ok) {
         this.setError();
         throw 'response not ok';
       }
-      const { access_token, expires_in } = await response.json();
+      const { access_token, expires_in, refresh_token } = await response.json();
       return {
         accessToken: access_token,
-        expiresIn: expires_in
+        expiresIn: expires_in,
+        refreshToken: refresh_token
       };
     }
 
-    const response = await fetch(`${API_URL}/access_token_from_refresh_token?refresh_token=${refreshToken}`);
+    const response = await fetch(`${API_URL}/access_token_from_refresh_token`, {
+      body: JSON.stringify({
+        refreshToken
+      }),
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      method: 'POST'
+    });
     if (!response.ok) {
       this.setError();
       throw 'response not ok';
@@ -453,10 +613,16 @@ class App extends Component<Props, State> {
     return json;
   }
 
-  handleAuth() {
-    const { clientId, clientSecret, defaultClientId } = this.state;
+  // for the lyrics editor, null when nothing is playing
+  async getPositionMs() {
+    const state = await this.player?.getCurrentState();
+    return state?.position ?? null;
+  }
 
-    if (!(clientId && clientSecret) && !window.confirm('Are you sure you want to continue without a client ID and secret? Please read the message below')) {
+  async handleAuth() {
+    const { clientId, defaultClientId, redirectUri, spotifyAccountsUrl } = this.state;
+
+    if (!clientId && !window.confirm('Are you sure you want to continue without a client ID? Please read the message below')) {
       return;
     }
 
@@ -468,25 +634,91 @@ class App extends Component<Props, State> {
     // https://stackoverflow.com/a/32261263
     const top = (window.top?.innerHeight ?? 0) / 2 + (window.top?.screenY ?? 0) - (height / 2);
     const left = (window.top?.outerWidth ?? 0) / 2 + (window.top?.screenX ?? 0) - (width / 2);
-    window.open(
-      `https://accounts.spotify.com/authorize?client_id=${clientId || defaultClientId}&redirect_uri=${REDIRECT_URI}&scope=${scopes.join('%20')}&response_type=code&show_dialog=true`,
+    // opened straight away, since popups only get let through while the click is fresh
+    const authWindow = window.open(
+      'about:blank',
       'literal-visualiser-auth',
       `scrollbars=no,resizable=no,status=no,location=no,toolbar=no,menubar=no,width=${width},height=${height},top=${top},left=${left}`
     );
+    if (!authWindow) {
+      toast.error('Please allow popups to link your Spotify account.');
+      return;
+    }
+
+    const codeVerifier = clientId ? generateCodeVerifier() : null;
+    const state = generateState();
+    this.pendingAuth = {
+      codeVerifier,
+      state
+    };
+    const params = new URLSearchParams({
+      client_id: clientId || defaultClientId,
+      redirect_uri: redirectUri,
+      response_type: 'code',
+      scope: scopes.join(' '),
+      show_dialog: 'true',
+      state
+    });
+    if (codeVerifier) {
+      params.set('code_challenge', await getCodeChallenge(codeVerifier));
+      params.set('code_challenge_method', 'S256');
+    }
+    authWindow.location.href = `${spotifyAccountsUrl}/authorize?${params}`;
   }
 
-  handleClientDetailsChange(key: 'clientId' | 'clientSecret', value: string) {
-    if (key === 'clientId') {
-      this.setState({
-        clientId: value
+  async handleCancel() {
+    const { generationId } = this.state;
+    if (!generationId) {
+      return;
+    }
+
+    // clear it first so the generation in flight knows it was us when it hears it was cancelled
+    this.setState({
+      generationId: null,
+      progress: null,
+      queuePosition: -1,
+      selectedSong: null
+    });
+    this.setPageTitle();
+    try {
+      const response = await fetch(`${API_URL}/generate/${generationId}`, {
+        headers: {
+          Authorization: `Bearer ${await this.getAccessToken()}`
+        },
+        method: 'DELETE'
       });
+      // 409 means it finished first, which is fine, we just won't play it
+      if (!response.ok && response.status !== 409) {
+        throw new Error(`cancel responded with ${response.status}`);
+      }
+    } catch (error) {
+      console.error(error);
+      toast.error('Sorry, something went wrong cancelling that song.');
+    }
+  }
+
+  handleClientIdChange(clientId: string) {
+    this.setState({
+      clientId
+    });
+    localStorage.setItem(STORAGE_KEY_CLIENT_ID, clientId);
+  }
+
+  handleExport() {
+    if (window.confirm('Would you like to add the song to your video? You\'ll need to choose an audio file of it.')) {
+      this.audioInputRef.current?.click();
     } else {
-      this.setState({
-        clientSecret: value
-      });
+      this.exportVideo(null);
     }
+  }
 
-    localStorage.setItem(key, value);
+  handleExportAudioChange(event: InputChangeEvent<HTMLInputElement>) {
+    const audio = event.target.files?.[0];
+    // so picking the same file again still counts as a change
+    event.target.value = '';
+    if (audio) {
+      this.exportVideo(audio);
+    }
   }
 
   handleLogout() {
@@ -498,12 +730,144 @@ class App extends Component<Props, State> {
     window.location.reload();
   }
 
+  async handleRate(rating: 1 | -1) {
+    const { currentLyric } = this.state;
+    if (!currentLyric) {
+      return;
+    }
+
+    const { imageId } = currentLyric;
+    this.setState(({ ratings }) => ({
+      ratings: { ...ratings, [imageId]: rating }
+    }));
+    try {
+      const response = await fetch(`${API_URL}/images/${imageId}/rating`, {
+        body: JSON.stringify({
+          rating
+        }),
+        headers: {
+          Authorization: `Bearer ${await this.getAccessToken()}`,
+          'Content-Type': 'application/json'
+        },
+        method: 'POST'
+      });
+      if (!response.ok) {
+        throw new Error(`rating responded with ${response.status}`);
+      }
+      toast.success(rating === 1 ? 'Glad you like it!' : 'Thanks, you\'ll see that one less.');
+    } catch (error) {
+      console.error(error);
+      toast.error('Sorry, something went wrong rating that image.');
+      this.setState(({ ratings }) => {
+        const { [imageId]: _, ...rest } = ratings;
+        return {
+          ratings: rest
+        };
+      });
+    }
+  }
+
+  async handleRegenerate() {
+    const { currentLyric, generationId } = this.state;
+    if (!(currentLyric && generationId)) {
+      return;
+    }
+
+    const { index } = currentLyric;
+    this.setState({
+      regenerating: true
+    });
+    try {
+      const response = await fetch(`${API_URL}/generate/${generationId}/lines/${index}/regenerate`, {
+        headers: {
+          Authorization: `Bearer ${await this.getAccessToken()}`
+        },
+        method: 'POST'
+      });
+      if (response.status === 429) {
+        toast.error(getQuotaMessage(await response.json()));
+        return;
+      } else if (!response.ok) {
+        throw new Error(`regenerate responded with ${response.status}`);
+      }
+
+      // every line showing the same image gets the new one, like the rest of a scene or a repeated chorus
+      const { imageId, imageUrl, lineIndexes }: { imageId: string; imageUrl: string; lineIndexes: number[]; } = await response.json();
+      await this.preloadImages([{ ...this.lyrics[index], imageUrl }]);
+      lineIndexes.forEach((lineIndex) => {
+        this.lyrics[lineIndex] = { ...this.lyrics[lineIndex], imageId, imageUrl };
+      });
+      // only swap it in if one of those lines is still showing
+      this.setState(({ currentLyric }) => ({
+        currentLyric: currentLyric && lineIndexes.includes(currentLyric.index) ? { ...currentLyric, imageId, imageUrl: `${API_URL}${imageUrl}` } : currentLyric
+      }));
+    } catch (error) {
+      console.error(error);
+      toast.error('Sorry, something went wrong generating a new image.');
+    } finally {
+      this.setState({
+        regenerating: false
+      });
+    }
+  }
+
+  async handleSave() {
+    const { generationId, selectedSong } = this.state;
+    if (!generationId) {
+      return;
+    }
+
+    const name = window.prompt('What would you like to call this visualisation?', selectedSong?.title ?? '');
+    if (!name?.trim()) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`${API_URL}/visualisations`, {
+        body: JSON.stringify({
+          artists: selectedSong?.artists,
+          generationId,
+          name,
+          thumbnailUrl: selectedSong?.thumbnailUrl,
+          title: selectedSong?.title
+        }),
+        headers: {
+          Authorization: `Bearer ${await this.getAccessToken()}`,
+          'Content-Type': 'application/json'
+        },
+        method: 'POST'
+      });
+      if (!response.ok) {
+        throw new Error(`save responded with ${response.status}`);
+      }
+
+      const { visualisationId } = await response.json();
+      const permalink = `${window.location.origin}/v/${visualisationId}`;
+      try {
+        await navigator.clipboard.writeText(permalink);
+        toast.success('Saved! The link has been copied to your clipboard.');
+      } catch {
+        toast.success(`Saved! Share it with ${permalink}`);
+      }
+    } catch (error) {
+      console.error(error);
+      toast.error('Sorry, something went wrong saving that.');
+    }
+  }
+
   handleSearchChange(event: FormEvent<HTMLElement>, { newValue }: ChangeEvent) {
     this.setState({
       search: newValue
     });
   }
 
+  handleStylePresetChange(stylePreset: string) {
+    this.setState({
+      stylePreset
+    });
+    localStorage.setItem(STORAGE_KEY_STYLE_PRESET, stylePreset);
+  }
+
   handleSuggestionsFetchRequested(params: SuggestionsFetchRequestedParams) {
     this.debouncePromise = this.debouncePromise.then(async () => {
       const { searchDebounceTimeout } = this.state;
@@ -529,14 +893,21 @@ class App extends Component<Props, State> {
     });
   }
 
-  async handleWindowMessage({ data }: MessageEvent) {
+  async handleWindowMessage({ data, origin }: MessageEvent) {
     if (!(data && typeof data === 'object' && data.type === 'code' && typeof data.code === 'string')) {
       return;
     }
 
-    const { clientId, clientSecret } = this.state;
+    // only our own login window, answering the request we actually made
+    const { pendingAuth } = this;
+    const { clientId, redirectUri } = this.state;
+    if (!(redirectUri && origin === new URL(redirectUri).origin && pendingAuth && data.state === pendingAuth.state)) {
+      return;
+    }
+
+    this.pendingAuth = null;
     try {
-      const { accessToken, expiresIn, refreshToken } = await this.getAccessTokenFromCode(data.code);
+      const { accessToken, expiresIn, refreshToken } = await this.getAccessTokenFromCode(data.code, pendingAuth.codeVerifier);
       localStorage.setItem(STORAGE_KEY_ACCESS_DETAILS, JSON.stringify({
         accessToken,
         expiresAt: Date.now() + (expiresIn * 1000),
@@ -545,8 +916,8 @@ class App extends Component<Props, State> {
       window.location.reload();
     } catch (error) {
       console.error(error);
-      if (clientId && clientSecret) {
-        toast.error('Something went wrong, check your client ID, secret have been inputted correctly, and that you have added the correct redirect URI')
+      if (clientId) {
+        toast.error('Something went wrong, check your client ID has been inputted correctly, and that you have added the correct redirect URI')
       }
     }
   }
@@ -557,24 +928,169 @@ class App extends Component<Props, State> {
     });
   }
 
+  // replays a saved visualisation exactly as it was, nothing gets generated
+  async loadVisualisation(visualisationId: string) {
+    try {
+      const response = await fetch(`${API_URL}/visualisations/${visualisationId}`);
+      if (response.status === 404) {
+        toast.error('Sorry, that visualisation doesn\'t exist.');
+        window.history.replaceState(null, '', '/');
+        return;
+      } else if (!response.ok) {
+        this.setError();
+        return;
+      }
+
+      const { artists, lyrics, thumbnailUrl, title, trackId } = await response.json();
+      this.setState({
+        progress: 0,
+        selectedSong: {
+          artists: artists ?? '',
+          id: trackId,
+          thumbnailUrl,
+          title: title ?? 'Unknown'
+        }
+      });
+      await this.preloadImages(lyrics);
+      await waitUntil(() => this.deviceId, 100, 30000);
+      await this.play(trackId, lyrics);
+    } catch (error) {
+      console.error(error);
+      this.setError();
+    }
+  }
+
+  // plays the track on our device, showing each line's image as its time comes up
+  async play(id: string, lyrics: Lyrics) {
+    const accessToken = await this.getAccessToken();
+    this.lyrics = lyrics;
+    this.setState({
+      progress: 1
+    });
+    if (!document.hasFocus()) {
+      this.setPageTitle('Ready');
+      await new Promise<void>((resolve) => {
+        window.addEventListener('focus', () => resolve(), {
+          once: true
+        });
+      });
+    }
+    this.setPageTitle('Playing');
+    if (this.player instanceof MockPlayer) {
+      await this.player.play(id);
+    } else {
+      await fetch(`${this.state.spotifyApiUrl}/v1/me/player/play?device_id=${this.deviceId}`, {
+        body: JSON.stringify({
+          uris: [`spotify:track:${id}`]
+        }),
+        headers: {
+          Authorization: `Bearer ${accessToken}`
+        },
+        method: 'PUT'
+      });
+    }
+    let paused = false;
+    let pausedOnce = false;
+    let lyricTimeouts: number[] = [];
+    const showLyric = (index: number) => {
+      // looked up when it's shown, the line's image may have been regenerated since
+      const { imageId, imageUrl, interlude, sceneIndex, words } = this.lyrics[index];
+      this.setState({
+        currentLyric: { imageId, imageUrl: `${API_URL}${imageUrl}`, index, interlude, sceneIndex, words }
+      });
+    };
+    this.player?.on('player_state_changed', (state: any) => {
+      console.log('player_stated_changed', {
+        state
+      });
+
+      paused = !state || state.paused;
+
+      if (paused) {
+        if (lyricTimeouts.length > 0) {
+          pausedOnce = true;
+          toast.success('Paused!');
+          this.setPageTitle('Paused');
+          lyricTimeouts.forEach((timeout) => {
+            clearTimeout(timeout);
+          });
+          lyricTimeouts = [];
+        }
+      } else if (lyricTimeouts.length === 0) {
+        const { position } = state;
+        if (pausedOnce) {
+          toast.success('Playing!');
+          this.setPageTitle('Playing');
+        }
+        // whatever should already be showing, like an intro starting right at the beginning
+        let currentIndex = -1;
+        lyrics.forEach(({ startTimeMs }, index) => {
+          if (startTimeMs <= position) {
+            currentIndex = index;
+          }
+        });
+        if (currentIndex >= 0) {
+          showLyric(currentIndex);
+        }
+
+        lyricTimeouts = lyrics.map((lyric, index) => ({ index, startTimeMs: lyric.startTimeMs })).filter(({ startTimeMs }) => startTimeMs > position).map(({ index, startTimeMs }) => {
+          return window.setTimeout(() => showLyric(index), startTimeMs - position)
+        });
+      }
+    });
+    if (this.state.pauseOnBlur) {
+      let pausedByOnBlur = false;
+      window.addEventListener('blur', () => {
+        if (!paused) {
+          this.player?.pause();
+          pausedByOnBlur = true;
+        }
+      });
+      window.addEventListener('focus', () => {
+        if (pausedByOnBlur) {
+          pausedByOnBlur = false;
+          this.player?.resume();
+        }
+      });
+    }
+  }
+
+  // lines share images, and they're served as immutable, so each one only gets fetched once
+  preloadImages(lyrics: Lyrics) {
+    const imageUrls = Array.from(new Set(lyrics.map(({ imageUrl }) => `${API_URL}${imageUrl}`)));
+    return Promise.all(imageUrls.map((imageUrl) => new Promise<void>((resolve) => {
+      const image = new Image();
+      image.onload = () => resolve();
+      image.onerror = () => resolve();
+      image.src = imageUrl;
+    })));
+  }
+
   render() {
     const {
       accessDetails,
       clientId,
-      clientSecret,
       currentLyric,
       defaultClientId,
+      editingLyrics,
+      exporting,
+      generationId,
       hideSuggestions,
       isError,
       lyricsDivKey,
       pauseOnBlur,
       progress,
       queuePosition,
+      ratings,
+      redirectUri,
+      regenerating,
       search,
       searchDebounceTimeout,
       searchInFlight,
       selectedSong,
-      songs
+      songs,
+      stylePreset,
+      stylePresets
     } = this.state;
     const loadingSuggestion: Song = {
       artists: '',
@@ -621,20 +1137,43 @@ class App extends Component<Props, State> {
           {isError && (
             <div className="message">Sorry, something went wrong</div>
           ) || currentLyric && (
-            <button className="playback" onClick={() => this.player?.togglePlay()}>
-              <div className="lyrics" key={lyricsDivKey} style={{ maxWidth: lyricsImage ? 0.8 * Math.min(lyricsImage.naturalWidth, lyricsImage.width) : 600 }}>
-                {currentLyric.words}
-              </div>
-              <img ref={this.lyricsImageRef} src={currentLyric.imageUri} />
-              <div className="metadata">
-                {selectedSong?.thumbnailUrl && <img alt={`Poster for ${selectedSong.title ?? 'Unknown'}`} src={selectedSong?.thumbnailUrl} />}
-                {selectedSong?.artists ? ` ${selectedSong.artists} - ` : ''}{selectedSong?.title ?? 'Unknown'}
+            <>
+              <button className="playback" onClick={() => this.player?.togglePlay()}>
+                {currentLyric.words && (
+                  <div className="lyrics" key={lyricsDivKey} style={{ maxWidth: lyricsImage ? 0.8 * Math.min(lyricsImage.naturalWidth, lyricsImage.width) : 600 }}>
+                    {currentLyric.words}
+                  </div>
+                )}
+                <img className={currentLyric.interlude === 'pan' ? 'pan' : undefined} key={currentLyric.sceneIndex} ref={this.lyricsImageRef} src={currentLyric.imageUrl} />
+                <div className="metadata">
+                  {selectedSong?.thumbnailUrl && <img alt={`Poster for ${selectedSong.title ?? 'Unknown'}`} src={selectedSong?.thumbnailUrl} />}
+                  {selectedSong?.artists ? ` ${selectedSong.artists} - ` : ''}{selectedSong?.title ?? 'Unknown'}
+                </div>
+              </button>
+              <div className="imageControls">
+                <button disabled={!!ratings[currentLyric.imageId]} onClick={() => this.handleRate(1)} title="I like this image">&#128077;</button>
+                <button disabled={!!ratings[currentLyric.imageId]} onClick={() => this.handleRate(-1)} title="I don't like this image">&#128078;</button>
+                {selectedSong && <button onClick={() => this.setState({ editingLyrics: true })} title="Fix the words or timings of these lyrics">Edit Lyrics</button>}
+                {generationId && (
+                  <>
+                    {currentLyric.interlude !== 'albumArt' && <button disabled={regenerating} onClick={this.handleRegenerate} title="Generate a new image for this line">{regenerating ? 'Generating...' : 'New Image'}</button>}
+                    <button onClick={this.handleSave} title="Save these images and get a link to share them">Save</button>
+                    <button disabled={exporting} onClick={this.handleExport} title="Download a video of these images with the lyrics">{exporting ? 'Exporting...' : 'Export Video'}</button>
+                    <input accept="audio/*" hidden onChange={this.handleExportAudioChange} ref={this.audioInputRef} type="file" />
+                  </>
+                )}
               </div>
-            </button>
+            </>
           ) || queuePosition >= 2 && (
-            <div className="message">Waiting... #{queuePosition} in Queue</div>
+            <div className="message">
+              Waiting... #{queuePosition} in Queue
+              <button onClick={this.handleCancel}>Cancel</button>
+            </div>
           ) || progress !== null && (
-            <div className="message">{progress === 1 ? 'Playing...' : `Generating... ${(progress * 100).toFixed(2)}%`}</div>
+            <div className="message">
+              {progress === 1 ? 'Playing...' : `Generating... ${(progress * 100).toFixed(2)}%`}
+              {progress !== 1 && <button onClick={this.handleCancel}>Cancel</button>}
+            </div>
           )|| (
             <div className="setup">
               {accessDetails ? (
@@ -660,12 +1199,22 @@ class App extends Component<Props, State> {
                       this.setState({
                         selectedSong: suggestion
                       });
-                      this.generate(suggestion.id);
+                      this.generate(suggestion);
                     }}
                     ref={this.autosuggestRef}
                     renderSuggestion={this.renderSuggestion}
                     suggestions={suggestions}
                   />
+                  {stylePresets.length > 0 && (
+                    <label>
+                      Style
+                      <select onChange={(event) => this.handleStylePresetChange(event.target.value)} value={stylePreset}>
+                        {stylePresets.map((preset) => (
+                          <option key={preset} value={preset}>{preset}</option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
                   <label>
                     Pause When Tab Loses Focus?
                     <input checked={pauseOnBlur} onChange={(event) => this.togglePauseOnBlur()} type="checkbox" />
@@ -677,31 +1226,35 @@ class App extends Component<Props, State> {
                   <div className="sad">
                     Unfortunately after all my hard work Spotify rejected my extension request :(
                     <div>
-                      You can still use this by making your own app in the <a href="https://developer.spotify.com/dashboard" rel="noreferrer" target="_blank">Spotify Dashboard</a>, adding "https://literalvisualiser.com/post_message" (without quotes) as a redirect URI and specifying your own client ID and secret below:
+                      You can still use this by making your own app in the <a href="https://developer.spotify.com/dashboard" rel="noreferrer" target="_blank">Spotify Dashboard</a>, adding "{redirectUri}" (without quotes) as a redirect URI and specifying your own client ID below:
                     </div>
                     <input
-                      onChange={(event) => this.handleClientDetailsChange('clientId', event.target.value)}
+                      onChange={(event) => this.handleClientIdChange(event.target.value)}
                       placeholder="Client ID (leave blank to use default)"
                       value={clientId}
                     />
-                    <input
-                      onChange={(event) => this.handleClientDetailsChange('clientSecret', event.target.value)}
-                      placeholder="Client Secret (leave blank to use default)"
-                      type="password"
-                      value={clientSecret}
-                    />
                     <div>
-                      These are sent straight to Spotify by your browser, they do not get sent to the backend of this website. If you don't trust me, you can of course clone the repo and run it locally.
+                      No client secret is needed, your browser logs in to Spotify directly using PKCE, so your login never goes through the backend of this website. If you don't trust me, you can of course clone the repo and run it locally.
                     </div>
                   </div>
                   {defaultClientId && (
-                    <button disabled={!!(clientId && !clientSecret || !clientId && clientSecret)} onClick={this.handleAuth}>Link Spotify Account</button>
+                    <button onClick={this.handleAuth}>Link Spotify Account</button>
                   )}
                 </>
               )}
             </div>
           )}
         </div>
+        {editingLyrics && selectedSong && (
+          <LyricsEditor
+            getAccessToken={() => this.getAccessToken()}
+            getPositionMs={() => this.getPositionMs()}
+            onClose={() => this.setState({ editingLyrics: false })}
+            onTogglePlay={() => this.player?.togglePlay()}
+            title={selectedSong.title}
+            trackId={selectedSong.id}
+          />
+        )}
         <div className="footer">
           Made by <a href="https://deanlevinson.com.au" rel="noreferrer" target="_blank">Dean Levinson</a> | <a href="https://github.com/deanylev/literal-visualiser" rel="noreferrer" target="_blank">Source</a>
         </div>
@@ -740,6 +1293,14 @@ class App extends Component<Props, State> {
     document.title = `Literal Visualiser ${title ? `- ${title}` : ''}`;
   }
 
+  setProgress(progress: number) {
+    this.setState({
+      progress,
+      queuePosition: -1
+    });
+    this.setPageTitle(`${(progress * 100).toFixed(2)}%`);
+  }
+
   togglePauseOnBlur() {
     const pauseOnBlur = !this.state.pauseOnBlur;
     this.setState({
@@ -747,6 +1308,76 @@ class App extends Component<Props, State> {
     });
     localStorage.setItem(STORAGE_KEY_PAUSE_ON_BLUR, pauseOnBlur.toString());
   }
+
+  // streams progress where possible, falling back to polling once a second if the stream can't be opened or drops
+  async watchGeneration(generationId: string, handleGeneration: (generation: Generation) => boolean) {
+    if (typeof EventSource !== 'undefined') {
+      const finished = await new Promise<boolean>((resolve) => {
+        const eventSource = new EventSource(`${API_URL}/events/${generationId}`);
+        eventSource.addEventListener('generation', (event) => {
+          if (handleGeneration(JSON.parse(event.data))) {
+            eventSource.close();
+            resolve(true);
+          }
+        });
+        eventSource.addEventListener('line', (event) => {
+          const { done, total } = JSON.parse(event.data);
+          this.setProgress(done / total);
+        });
+        eventSource.addEventListener('error', () => {
+          eventSource.close();
+          resolve(false);
+        });
+      });
+      if (finished) {
+        return;
+      }
+    }
+
+    await waitUntil(async () => {
+      const pollResponse = await fetch(`${API_URL}/poll/${generationId}`);
+      if (!pollResponse.ok) {
+        return handleGeneration({
+          status: 'error'
+        });
+      }
+
+      return handleGeneration(await pollResponse.json());
+    }, 1000); // 1 poll per second, no timeout
+  }
+
+  // same as watchGeneration, exports don't have lines to report so there's only the one event
+  async watchExport(exportId: string, handleExport: (videoExport: VideoExport) => boolean) {
+    if (typeof EventSource !== 'undefined') {
+      const finished = await new Promise<boolean>((resolve) => {
+        const eventSource = new EventSource(`${API_URL}/exports/${exportId}/events`);
+        eventSource.addEventListener('export', (event) => {
+          if (handleExport(JSON.parse(event.data))) {
+            eventSource.close();
+            resolve(true);
+          }
+        });
+        eventSource.addEventListener('error', () => {
+          eventSource.close();
+          resolve(false);
+        });
+      });
+      if (finished) {
+        return;
+      }
+    }
+
+    await waitUntil(async () => {
+      const pollResponse = await fetch(`${API_URL}/exports/${exportId}`);
+      if (!pollResponse.ok) {
+        return handleExport({
+          status: 'error'
+        });
+      }
+
+      return handleExport(await pollResponse.json());
+    }, 1000);
+  }
 }
 
 export default App;
@@ -0,0 +1,428 @@
+import { Component } from 'react';
+
+import toast from 'react-hot-toast';
+
+import { API_URL } from './util/api';
+
+import './LyricsEditor.scss';
+
+interface EditorLine {
+  // stable across edits, unlike the index
+  key: number;
+  startTimeMs: number;
+  words: string;
+}
+
+interface Props {
+  getAccessToken: () => Promise<string | null>;
+  // null when nothing is playing
+  getPositionMs: () => Promise<number | null>;
+  onClose: () => void;
+  onTogglePlay: () => void;
+  title: string;
+  trackId: string;
+}
+
+interface State {
+  dirty: boolean;
+  lines: EditorLine[] | null;
+  playingIndex: number | null;
+  saving: boolean;
+  source: string | null;
+  // the line the next tap sets the time of, when tap-to-sync is on
+  syncIndex: number | null;
+  // what's typed into each line's time box until it parses, by key
+  timeDrafts: Record<number, string>;
+}
+
+const NUDGE_MS = 100;
+const POSITION_INTERVAL_MS = 250;
+// where a split line starts when there's no next line to split the difference with
+const SPLIT_FALLBACK_MS = 2000;
+const TIME_REGEX = /^(\d+):(\d{1,2})(?:\.(\d{1,3}))?$/;
+
+function formatTime(timeMs: number) {
+  const minutes = Math.floor(timeMs / 60000);
+  const seconds = Math.floor(timeMs % 60000 / 1000);
+  const hundredths = Math.floor(timeMs % 1000 / 10);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}.${hundredths.toString().padStart(2, '0')}`;
+}
+
+// m:ss or m:ss.xx, null if it's neither
+function parseTime(text: string) {
+  const match = text.trim().match(TIME_REGEX);
+  if (!match) {
+    return null;
+  }
+
+  const [, minutes, seconds, fraction = '0'] = match;
+  return parseInt(minutes, 10) * 60000 + parseInt(seconds, 10) * 1000 + Math.round(parseFloat(`0.${fraction}`) * 1000);
+}
+
+// corrections are saved for the track as a whole, and used by every generation of it from then on
+class LyricsEditor extends Component<Props, State> {
+  // where the caret last was in each line's words, so a split happens there
+  carets: Map<number, number> = new Map();
+  nextKey = 0;
+  positionInterval: number | null = null;
+
+  constructor(props: Props) {
+    super(props);
+
+    this.state = {
+      dirty: false,
+      lines: null,
+      playingIndex: null,
+      saving: false,
+      source: null,
+      syncIndex: null,
+      timeDrafts: {}
+    };
+
+    this.handleClose = this.handleClose.bind(this);
+    this.handleKeyDown = this.handleKeyDown.bind(this);
+    this.handleRevert = this.handleRevert.bind(this);
+    this.handleSave = this.handleSave.bind(this);
+    this.handleTap = this.handleTap.bind(this);
+    this.updatePlayingIndex = this.updatePlayingIndex.bind(this);
+  }
+
+  componentDidMount() {
+    this.fetchLines();
+    this.positionInterval = window.setInterval(this.updatePlayingIndex, POSITION_INTERVAL_MS);
+    window.addEventListener('keydown', this.handleKeyDown, false);
+  }
+
+  componentWillUnmount() {
+    if (this.positionInterval !== null) {
+      window.clearInterval(this.positionInterval);
+    }
+    window.removeEventListener('keydown', this.handleKeyDown, false);
+  }
+
+  async fetchLines() {
+    try {
+      const response = await fetch(`${API_URL}/lyrics/${this.props.trackId}`);
+      if (!response.ok) {
+        throw new Error(`lyrics responded with ${response.status}`);
+      }
+
+      const { lines, source }: { lines: { startTimeMs: number; words: string; }[]; source: string; } = await response.json();
+      this.setState({
+        dirty: false,
+        lines: lines.map(({ startTimeMs, words }) => ({
+          key: this.nextKey++,
+          startTimeMs,
+          words
+        })),
+        source,
+        syncIndex: null,
+        timeDrafts: {}
+      });
+    } catch (error) {
+      console.error(error);
+      toast.error('Sorry, something went wrong loading the lyrics.');
+      this.props.onClose();
+    }
+  }
+
+  handleClose() {
+    if (this.state.dirty && !window.confirm('Discard your changes?')) {
+      return;
+    }
+
+    this.props.onClose();
+  }
+
+  handleDelete(index: number) {
+    this.setLines((lines) => lines.filter((line, lineIndex) => lineIndex !== index));
+  }
+
+  // space taps while syncing, unless someone's typing
+  handleKeyDown(event: KeyboardEvent) {
+    if (this.state.syncIndex === null || event.code !== 'Space' || (event.target as HTMLElement).tagName === 'INPUT') {
+      return;
+    }
+
+    event.preventDefault();
+    this.handleTap();
+  }
+
+  // the next line's words are added onto this one's, which keeps its time
+  handleMerge(index: number) {
+    this.setLines((lines) => {
+      const next = lines[index + 1];
+      if (!next) {
+        return lines;
+      }
+
+      const merged = {
+        ...lines[index],
+        words: `${lines[index].words.trim()} ${next.words.trim()}`.trim()
+      };
+      return [...lines.slice(0, index), merged, ...lines.slice(index + 2)];
+    });
+  }
+
+  handleNudge(index: number, deltaMs: number) {
+    const line = this.state.lines?.[index];
+    if (line) {
+      this.setLineTime(index, line.startTimeMs + deltaMs);
+    }
+  }
+
+  async handleRevert() {
+    if (!window.confirm('Throw away the corrections for this song and go back to the original lyrics?')) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`${API_URL}/lyrics/${this.props.trackId}`, {
+        headers: {
+          Authorization: `Bearer ${await this.props.getAccessToken()}`
+        },
+        method: 'DELETE'
+      });
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`revert responded with ${response.status}`);
+      }
+
+      toast.success('Reverted!');
+      await this.fetchLines();
+    } catch (error) {
+      console.error(error);
+      toast.error('Sorry, something went wrong reverting the lyrics.');
+    }
+  }
+
+  async handleSave() {
+    const { lines } = this.state;
+    if (!lines) {
+      return;
+    }
+
+    this.setState({
+      saving: true
+    });
+    try {
+      const response = await fetch(`${API_URL}/lyrics/${this.props.trackId}`, {
+        body: JSON.stringify({
+          lines: lines.map(({ startTimeMs, words }) => ({
+            startTimeMs,
+            words
+          }))
+        }),
+        headers: {
+          Authorization: `Bearer ${await this.props.getAccessToken()}`,
+          'Content-Type': 'application/json'
+        },
+        method: 'PUT'
+      });
+      if (response.status === 400) {
+        toast.error('Those lyrics can\'t be saved, there needs to be at least one line with words and a time after the start.');
+        return;
+      } else if (!response.ok) {
+        throw new Error(`save lyrics responded with ${response.status}`);
+      }
+
+      // the server tidies them up, sorting them and dropping empty lines
+      const { lines: savedLines, source } = await response.json();
+      this.setState({
+        dirty: false,
+        lines: savedLines.map(({ startTimeMs, words }: { startTimeMs: number; words: string; }) => ({
+          key: this.nextKey++,
+          startTimeMs,
+          words
+        })),
+        source,
+        syncIndex: null,
+        timeDrafts: {}
+      });
+      toast.success('Saved! They\'ll be used the next time this song is generated.');
+    } catch (error) {
+      console.error(error);
+      toast.error('Sorry, something went wrong saving the lyrics.');
+    } finally {
+      this.setState({
+        saving: false
+      });
+    }
+  }
+
+  // splits at the caret if it was left inside the words, otherwise at the middle word
+  handleSplit(index: number) {
+    this.setLines((lines) => {
+      const line = lines[index];
+      const words = line.words.trim();
+      let splitAt = this.carets.get(line.key) ?? 0;
+      if (splitAt <= 0 || splitAt >= words.length) {
+        const spaces = words.split('').map((character, characterIndex) => character === ' ' ? characterIndex : -1).filter((characterIndex) => characterIndex !== -1);
+        if (spaces.length === 0) {
+          return lines;
+        }
+
+        splitAt = spaces[Math.floor(spaces.length / 2)];
+      }
+
+      const next = lines[index + 1];
+      const second: EditorLine = {
+        key: this.nextKey++,
+        startTimeMs: next ? Math.round((line.startTimeMs + next.startTimeMs) / 2) : line.startTimeMs + SPLIT_FALLBACK_MS,
+        words: words.slice(splitAt).trim()
+      };
+      const first = {
+        ...line,
+        words: words.slice(0, splitAt).trim()
+      };
+      return [...lines.slice(0, index), first, second, ...lines.slice(index + 1)];
+    });
+  }
+
+  // sets the line being synced to wherever the song is, then moves on to the next one
+  async handleTap() {
+    const { syncIndex } = this.state;
+    if (syncIndex === null) {
+      return;
+    }
+
+    const positionMs = await this.props.getPositionMs();
+    if (positionMs === null) {
+      toast.error('Play the song to sync the lyrics to it.');
+      return;
+    }
+
+    this.setLineTime(syncIndex, positionMs);
+    this.setState(({ lines }) => ({
+      syncIndex: lines && syncIndex + 1 < lines.length ? syncIndex + 1 : null
+    }));
+  }
+
+  handleTimeChange(index: number, text: string) {
+    const { lines } = this.state;
+    const line = lines?.[index];
+    if (!line) {
+      return;
+    }
+
+    const timeMs = parseTime(text);
+    if (timeMs === null) {
+      // kept as typed until it's a time
+      this.setState(({ timeDrafts }) => ({
+        timeDrafts: {
+          ...timeDrafts,
+          [line.key]: text
+        }
+      }));
+      return;
+    }
+
+    this.setLineTime(index, timeMs);
+  }
+
+  handleWordsChange(index: number, words: string) {
+    this.setLines((lines) => lines.map((line, lineIndex) => lineIndex === index ? { ...line, words } : line));
+  }
+
+  setLineTime(index: number, startTimeMs: number) {
+    this.setLines((lines) => lines.map((line, lineIndex) => lineIndex === index ? { ...line, startTimeMs: Math.max(Math.round(startTimeMs), 0) } : line));
+    this.setState(({ lines, timeDrafts }) => {
+      const otherDrafts = { ...timeDrafts };
+      const key = lines?.[index]?.key;
+      if (key !== undefined) {
+        delete otherDrafts[key];
+      }
+      return {
+        timeDrafts: otherDrafts
+      };
+    });
+  }
+
+  // every edit goes through here
+  setLines(update: (lines: EditorLine[]) => EditorLine[]) {
+    this.setState(({ lines }) => ({
+      dirty: true,
+      lines: lines && update(lines)
+    }));
+  }
+
+  toggleSync() {
+    this.setState(({ syncIndex }) => ({
+      syncIndex: syncIndex === null ? 0 : null
+    }));
+  }
+
+  async updatePlayingIndex() {
+    const { lines } = this.state;
+    const positionMs = await this.props.getPositionMs();
+    if (!lines || positionMs === null) {
+      return;
+    }
+
+    let playingIndex: number | null = null;
+    lines.forEach(({ startTimeMs }, index) => {
+      if (startTimeMs <= positionMs && (playingIndex === null || startTimeMs >= lines[playingIndex].startTimeMs)) {
+        playingIndex = index;
+      }
+    });
+    if (playingIndex !== this.state.playingIndex) {
+      this.setState({
+        playingIndex
+      });
+    }
+  }
+
+  render() {
+    const { dirty, lines, playingIndex, saving, source, syncIndex, timeDrafts } = this.state;
+
+    return (
+      <div className="LyricsEditor">
+        <div className="panel">
+          <div className="heading">
+            Edit Lyrics - {this.props.title}
+            {source === 'override' && <span className="badge" title="These lyrics have been corrected before">Corrected</span>}
+          </div>
+          <div className="toolbar">
+            <button onClick={this.props.onTogglePlay}>Play / Pause</button>
+            <button className={syncIndex !== null ? 'active' : ''} disabled={!lines?.length} onClick={() => this.toggleSync()} title="Tap along with the song to set each line's time in turn">
+              {syncIndex === null ? 'Tap to Sync' : 'Stop Syncing'}
+            </button>
+            {syncIndex !== null && <button className="tap" onClick={this.handleTap}>Tap (Space)</button>}
+          </div>
+          {lines === null ? (
+            <div className="empty">Loading...</div>
+          ) : (
+            <div className="lines">
+              {lines.map(({ key, startTimeMs, words }, index) => (
+                <div className={['line', index === playingIndex ? 'playing' : '', index === syncIndex ? 'syncing' : '', index > 0 && startTimeMs < lines[index - 1].startTimeMs ? 'outOfOrder' : ''].filter(Boolean).join(' ')} key={key}>
+                  <button onClick={() => this.handleNudge(index, -NUDGE_MS)} title={`${NUDGE_MS}ms earlier`}>-</button>
+                  <input
+                    className="time"
+                    onChange={(event) => this.handleTimeChange(index, event.target.value)}
+                    value={timeDrafts[key] ?? formatTime(startTimeMs)}
+                  />
+                  <button onClick={() => this.handleNudge(index, NUDGE_MS)} title={`${NUDGE_MS}ms later`}>+</button>
+                  <input
+                    className="words"
+                    onChange={(event) => this.handleWordsChange(index, event.target.value)}
+                    onSelect={(event) => this.carets.set(key, event.currentTarget.selectionStart ?? 0)}
+                    value={words}
+                  />
+                  <button disabled={index === lines.length - 1} onClick={() => this.handleMerge(index)} title="Merge with the next line">Merge</button>
+                  <button onClick={() => this.handleSplit(index)} title="Split into two lines at the cursor">Split</button>
+                  <button className="danger" onClick={() => this.handleDelete(index)} title="Delete this line">Delete</button>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="actions">
+            {source === 'override' && <button className="danger" onClick={this.handleRevert}>Revert to Original</button>}
+            <button onClick={this.handleClose}>Close</button>
+            <button disabled={!dirty || saving} onClick={this.handleSave}>{saving ? 'Saving...' : 'Save'}</button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+}
+
+export default LyricsEditor;
@@ -1,6 +1,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import './index.css';
+import Admin from './Admin';
 import App from './App';
 import reportWebVitals from './reportWebVitals';
 
@@ -9,7 +10,7 @@ const root = ReactDOM.createRoot(
 );
 root.render(
   <React.StrictMode>
-    <App />
+    {window.location.pathname === '/admin' ? <Admin /> : <App />}
   </React.StrictMode>
 );
 
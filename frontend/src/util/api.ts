@@ -0,0 +1,3 @@
+export const isDev = process.env.NODE_ENV === 'development';
+// the dev server only serves the frontend, everything else comes from the backend on its usual port
+export const API_URL = isDev ? `http://${window.location.hostname}:8080` : '';
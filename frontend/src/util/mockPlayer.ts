@@ -0,0 +1,125 @@
+// the parts of the Web Playback SDK's player we use, so the simulated one can stand in for it
+export type Player = Pick<Spotify.Player, 'activateElement' | 'connect' | 'getCurrentState' | 'on' | 'pause' | 'resume' | 'togglePlay'>;
+
+const DEVICE_ID = 'mock-device';
+const STATE_INTERVAL_MS = 1000;
+
+// plays nothing, but reports its position the way the real player does so lyrics can be timed against it in mock mode
+export default class MockPlayer implements Player {
+  apiUrl: string;
+  durationMs = 0;
+  getOAuthToken: () => Promise<string | null>;
+  interval: number | null = null;
+  listeners: Map<string, ((data: any) => void)[]> = new Map();
+  // as of startedAt, if we're playing
+  positionMs = 0;
+  startedAt: number | null = null;
+  trackId: string | null = null;
+
+  constructor(apiUrl: string, getOAuthToken: () => Promise<string | null>) {
+    this.apiUrl = apiUrl;
+    this.getOAuthToken = getOAuthToken;
+  }
+
+  async activateElement() {}
+
+  async connect() {
+    window.setTimeout(() => this.emit('ready', {
+      device_id: DEVICE_ID
+    }));
+    return true;
+  }
+
+  emit(event: string, data: unknown) {
+    (this.listeners.get(event) ?? []).forEach((listener) => listener(data));
+  }
+
+  emitState() {
+    if (this.trackId && this.getPositionMs() >= this.durationMs) {
+      // the real player pauses back at the start when a track ends
+      this.setPaused(true, 0);
+      return;
+    }
+
+    this.emit('player_state_changed', this.getState());
+  }
+
+  async getCurrentState() {
+    return this.getState() as Spotify.PlaybackState | null;
+  }
+
+  getPositionMs() {
+    return this.positionMs + (this.startedAt === null ? 0 : Date.now() - this.startedAt);
+  }
+
+  // only the fields we actually read
+  getState() {
+    if (!this.trackId) {
+      return null;
+    }
+
+    return {
+      duration: this.durationMs,
+      paused: this.startedAt === null,
+      position: Math.min(this.getPositionMs(), this.durationMs),
+      timestamp: Date.now(),
+      track_window: {
+        current_track: {
+          duration_ms: this.durationMs,
+          id: this.trackId
+        }
+      }
+    };
+  }
+
+  on(event: string, listener: (data: any) => void) {
+    this.listeners.set(event, [...(this.listeners.get(event) ?? []), listener]);
+  }
+
+  async pause() {
+    this.setPaused(true, this.getPositionMs());
+  }
+
+  // the duration comes from the (fake) Web API, like everything else about the track
+  async play(trackId: string) {
+    const response = await fetch(`${this.apiUrl}/v1/tracks/${trackId}`, {
+      headers: {
+        Authorization: `Bearer ${await this.getOAuthToken()}`
+      }
+    });
+    if (!response.ok) {
+      throw new Error(`track responded with ${response.status}`);
+    }
+
+    const { duration_ms } = await response.json();
+    this.durationMs = duration_ms;
+    this.trackId = trackId;
+    this.setPaused(false, 0);
+  }
+
+  async resume() {
+    this.setPaused(false, this.getPositionMs());
+  }
+
+  setPaused(paused: boolean, positionMs: number) {
+    this.positionMs = positionMs;
+    this.startedAt = paused ? null : Date.now();
+    if (this.interval !== null) {
+      window.clearInterval(this.interval);
+      this.interval = null;
+    }
+    if (!paused) {
+      this.interval = window.setInterval(() => this.emitState(), STATE_INTERVAL_MS);
+    }
+
+    this.emitState();
+  }
+
+  async togglePlay() {
+    if (this.startedAt === null) {
+      await this.resume();
+    } else {
+      await this.pause();
+    }
+  }
+}
@@ -0,0 +1,28 @@
+// https://datatracker.ietf.org/doc/html/rfc7636
+const CODE_VERIFIER_BYTES = 64;
+const STATE_BYTES = 16;
+
+function base64Url(bytes: Uint8Array) {
+  return btoa(String.fromCharCode.apply(null, Array.from(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function randomString(byteCount: number) {
+  return base64Url(window.crypto.getRandomValues(new Uint8Array(byteCount)));
+}
+
+export function generateCodeVerifier() {
+  return randomString(CODE_VERIFIER_BYTES);
+}
+
+// 22 characters, which is what post_message.html expects back
+export function generateState() {
+  return randomString(STATE_BYTES);
+}
+
+export async function getCodeChallenge(codeVerifier: string) {
+  const digest = await window.crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return base64Url(new Uint8Array(digest));
+}
@@ -0,0 +1,30 @@
+// the body of a 429 from generating or exporting
+export interface QuotaExceeded {
+  error: 'quotaExceeded';
+  limit: number;
+  quota: 'concurrentExports' | 'concurrentGenerations' | 'dailyImages' | 'uncachedLines';
+  retryAfterSeconds: number | null;
+  scope: 'generation' | 'ip' | 'user';
+}
+
+function formatDuration(seconds: number) {
+  const units: [string, number][] = [['hour', 60 * 60], ['minute', 60], ['second', 1]];
+  const [unit, unitSeconds] = units.find(([, unitSeconds]) => seconds >= unitSeconds) ?? units[units.length - 1];
+  const count = Math.max(Math.round(seconds / unitSeconds), 1);
+  return `${count} ${unit}${count === 1 ? '' : 's'}`;
+}
+
+export function getQuotaMessage({ limit, quota, retryAfterSeconds, scope }: QuotaExceeded) {
+  const retry = retryAfterSeconds === null ? '' : ` Please try again in ${formatDuration(retryAfterSeconds)}.`;
+  const who = scope === 'ip' ? 'Your network has' : 'You have';
+  switch (quota) {
+    case 'concurrentExports':
+      return `${who} ${limit} video${limit === 1 ? '' : 's'} exporting already.${retry}`;
+    case 'concurrentGenerations':
+      return `${who} ${limit} song${limit === 1 ? '' : 's'} generating already.${retry}`;
+    case 'dailyImages':
+      return `${who} used up today's ${limit} new images.${retry}`;
+    case 'uncachedLines':
+      return `Sorry, that song needs more new images than one visualisation can have (${limit}).${retry}`;
+  }
+}
@@ -0,0 +1,516 @@
+import { EventEmitter } from 'events';
+
+import { v4 } from 'uuid';
+
+import { GeneratedImage, ImageGenerator } from './image-generators';
+import { deleteImage, getImageUrl, writeImage } from './image-store';
+import { InterludeVisual } from './interludes';
+import logger from './logger';
+import { LyricsLine } from './lyrics-providers';
+import { getErrorStatus, imageGenerationDuration, lineCacheResults } from './metrics';
+import { ImagePrompt } from './prompt-builder';
+import { QuotaClient } from './quotas';
+import Scheduler, { ScheduleCancelledError } from './scheduler';
+import { Storage } from './storage';
+import { Generation, GenerationStatus, Lyrics } from './types';
+
+const ABANDONED_SWEEP_INTERVAL_MS = 1000;
+const FINISHED_RETENTION_MS = 60 * 60 * 1000;
+const WORKER_IDLE_MS = 1000;
+
+// images whose downvotes outnumber their upvotes by the threshold are never picked, expects the negated threshold as a parameter
+const NOT_REJECTED_CONDITION = '(SELECT COALESCE(SUM(rating), 0) FROM image_ratings WHERE generation_id = generations.id) > ?';
+export const UNFINISHED_STATUSES: GenerationStatus[] = ['waiting', 'inProgress'];
+
+interface Task {
+  id: string;
+  image_id: string | null;
+  line_index: number;
+  interlude: InterludeVisual | null;
+  negative_prompt: string;
+  prompt: string;
+  prompt_hash: string;
+  scene_index: number | null;
+  start_time_ms: number;
+  words: string;
+}
+
+function getRandomElement<T>(array: T[]): T {
+  return array[Math.floor(Math.random() * array.length)]
+}
+
+function getWeightedRandomElement<T>(array: T[], getWeight: (element: T) => number): T {
+  const weights = array.map(getWeight);
+  let remaining = Math.random() * weights.reduce((total, weight) => total + weight, 0);
+  const index = weights.findIndex((weight) => (remaining -= weight) < 0);
+  return array[index === -1 ? array.length - 1 : index];
+}
+
+export interface LineCompletedEvent {
+  done: number;
+  index: number;
+  total: number;
+  words: string;
+}
+
+// jobs and their per-line tasks live in the database, so a restart picks up where it left off and pollers see the same state
+// emits 'change' with a job ID whenever a job's status changes, and 'line' with a job ID and LineCompletedEvent as each line finishes
+export default class GenerationQueue extends EventEmitter {
+  // the status of every job this process is running, checked between steps so cancelled jobs stop early
+  _activeStatuses: Map<string, GenerationStatus> = new Map();
+  _concurrentJobs: number;
+  // set when shutting down, no more jobs are picked up from the queue
+  _draining = false;
+  _imageGenerator: ImageGenerator;
+  // every job run and line regeneration in progress, so shutting down can wait for them
+  _inFlight: Set<Promise<unknown>> = new Set();
+  _provider: string;
+  _rejectDownvotes: number;
+  _runningQueuedJobs: Set<string> = new Set();
+  _scheduler: Scheduler;
+  // set once draining runs out of time, no more image requests are started and unfinished jobs are left for the next start
+  _stopping = false;
+  _storage: Storage;
+  // jobs with a client streaming their progress, which never time out while connected
+  _subscribers: Map<string, number> = new Map();
+  _sweepInterval: NodeJS.Timeout | null = null;
+  _timeoutMs: number;
+  _wakeWorker: (() => void) | null = null;
+
+  constructor(storage: Storage, imageGenerator: ImageGenerator, provider: string, scheduler: Scheduler, { concurrentJobs, rejectDownvotes, timeoutMs }: { concurrentJobs: number; rejectDownvotes: number; timeoutMs: number; }) {
+    super();
+    // every streaming client listens for changes
+    this.setMaxListeners(0);
+    this._concurrentJobs = concurrentJobs;
+    this._imageGenerator = imageGenerator;
+    this._provider = provider;
+    this._rejectDownvotes = rejectDownvotes;
+    this._scheduler = scheduler;
+    this._storage = storage;
+    this._timeoutMs = timeoutMs;
+  }
+
+  // resolves to whether there was still something to cancel
+  cancel(jobId: string) {
+    return this._setStatus(jobId, 'cancelled');
+  }
+
+  // how many new images a job with these prompts would need, repeated prompts only need one
+  async countUncached(promptHashes: string[]) {
+    const uniquePromptHashes = [...new Set(promptHashes)];
+    if (uniquePromptHashes.length === 0) {
+      return 0;
+    }
+
+    const cachedRows = await this._storage.query(`SELECT COUNT(DISTINCT(words_hash)) AS cached FROM generations WHERE words_hash IN (${uniquePromptHashes.map(() => '?').join(',')}) AND ${NOT_REJECTED_CONDITION}`, [...uniquePromptHashes, -this._rejectDownvotes]);
+    return uniquePromptHashes.length - Number(cachedRows[0].cached);
+  }
+
+  // jobs where every prompt is already cached skip the queue entirely
+  // lines with the same prompt hash always end up with the same image, which is how scenes and repeated choruses share one
+  async create(trackId: string, lines: (LyricsLine & { interlude: InterludeVisual | null; sceneIndex: number; })[], prompts: ImagePrompt[], promptHashes: string[], { ip, spotifyUserId }: QuotaClient) {
+    const queued = await this.countUncached(promptHashes) > 0;
+    const jobId = v4();
+    const now = Date.now();
+    await this._storage.execute('INSERT INTO generation_jobs (id, client_ip, created_at, last_polled_at, queued, spotify_user_id, status, track_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?)', [jobId, ip, now, now, queued, spotifyUserId, queued ? 'waiting' : 'inProgress', trackId]);
+    await Promise.all(lines.map(({ interlude, sceneIndex, startTimeMs, words }, index) => {
+      return this._storage.execute('INSERT INTO generation_tasks (id, interlude, job_id, line_index, negative_prompt, prompt, prompt_hash, scene_index, start_time_ms, words) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)', [v4(), interlude, jobId, index, prompts[index].negativePrompt, prompts[index].prompt, promptHashes[index], sceneIndex, startTimeMs, words]);
+    }));
+    if (queued) {
+      this._wakeWorker?.();
+    } else {
+      this._track(this._run(jobId));
+    }
+
+    return jobId;
+  }
+
+  async get(jobId: string): Promise<Generation | null> {
+    const jobRows = await this._storage.query('SELECT created_at, status FROM generation_jobs WHERE id = ?', [jobId]);
+    const job = jobRows[0];
+    if (!job) {
+      return null;
+    }
+
+    const status = job.status as GenerationStatus;
+    switch (status) {
+      case 'waiting': {
+        const aheadRows = await this._storage.query('SELECT COUNT(*) AS ahead FROM generation_jobs WHERE queued = ? AND status = ? AND created_at < ?', [true, 'waiting', job.created_at]);
+        const runningRows = await this._storage.query('SELECT COUNT(*) AS running FROM generation_jobs WHERE queued = ? AND status = ?', [true, 'inProgress']);
+        // the jobs filling the concurrentJobs slots are ahead of it too
+        return {
+          status,
+          queuePosition: Number(aheadRows[0].ahead) + Math.min(Number(runningRows[0].running), this._concurrentJobs) + 1
+        };
+      }
+      case 'inProgress': {
+        const progressRows = await this._storage.query('SELECT COUNT(*) AS total, COUNT(image_id) AS done FROM generation_tasks WHERE job_id = ?', [jobId]);
+        const { done, total } = progressRows[0];
+        return {
+          status,
+          done,
+          total
+        };
+      }
+      case 'done':
+        return {
+          status,
+          lyrics: await this.getLyrics(jobId)
+        };
+      case 'cancelled':
+      case 'error':
+        return {
+          status
+        };
+    }
+  }
+
+  // how many jobs are at each unfinished status, for metrics
+  async getJobCounts() {
+    const countRows = await this._storage.query(`SELECT status, COUNT(*) AS count FROM generation_jobs WHERE status IN (${UNFINISHED_STATUSES.map(() => '?').join(',')}) GROUP BY status`, UNFINISHED_STATUSES);
+    const getCount = (status: GenerationStatus) => Number(countRows.find((row) => row.status === status)?.count ?? 0);
+    return {
+      inProgress: getCount('inProgress'),
+      waiting: getCount('waiting')
+    };
+  }
+
+  async getLyrics(jobId: string): Promise<Lyrics> {
+    const taskRows = await this._storage.query('SELECT image_id, interlude, line_index, scene_index, start_time_ms, words FROM generation_tasks WHERE job_id = ? ORDER BY line_index ASC', [jobId]);
+    return taskRows.map(({ image_id, interlude, line_index, scene_index, start_time_ms, words }) => ({
+      imageId: image_id,
+      imageUrl: getImageUrl(image_id),
+      interlude: interlude ?? null,
+      // jobs from before scenes had a line per scene
+      sceneIndex: scene_index ?? line_index,
+      startTimeMs: start_time_ms,
+      words
+    }));
+  }
+
+  // resolves to the new image ID and every line now showing it, or null if there's no such line
+  // the rest of the line's scene, and any repeats of it, get the new image too
+  async regenerateLine(jobId: string, lineIndex: number) {
+    const taskRows = await this._storage.query<Task & { track_id: string; }>('SELECT generation_tasks.*, generation_jobs.track_id FROM generation_tasks JOIN generation_jobs ON generation_jobs.id = generation_tasks.job_id WHERE job_id = ? AND line_index = ?', [jobId, lineIndex]);
+    const task = taskRows[0];
+    if (!task) {
+      return null;
+    }
+
+    // still in use, so it isn't swept away an hour after the last poll
+    await this.touch(jobId);
+    return this._track((async () => {
+      const imageIds = await this._scheduler.schedule(this._provider, () => {
+        logger.info('regenerating', {
+          generationId: jobId,
+          lineIndex,
+          prompt: task.prompt
+        });
+        return this._generateImages(task.track_id, task);
+      }, () => !this._stopping);
+      const imageId = getRandomElement(imageIds);
+      await this._storage.execute('UPDATE generation_tasks SET image_id = ? WHERE job_id = ? AND prompt_hash = ?', [imageId, jobId, task.prompt_hash]);
+      const sharingRows = await this._storage.query('SELECT line_index FROM generation_tasks WHERE job_id = ? AND prompt_hash = ? ORDER BY line_index ASC', [jobId, task.prompt_hash]);
+      return {
+        imageId,
+        lineIndexes: sharingRows.map(({ line_index }) => line_index as number)
+      };
+    })());
+  }
+
+  async start() {
+    // clients couldn't poll while we were down, give them a fresh timeout
+    await this._storage.execute(`UPDATE generation_jobs SET last_polled_at = ? WHERE status IN (${UNFINISHED_STATUSES.map(() => '?').join(',')})`, [Date.now(), ...UNFINISHED_STATUSES]);
+    const unqueuedRows = await this._storage.query('SELECT id FROM generation_jobs WHERE queued = ? AND status = ?', [false, 'inProgress']);
+    unqueuedRows.forEach(({ id }) => {
+      logger.info('resuming generation', {
+        generationId: id
+      });
+      this._track(this._run(id));
+    });
+
+    this._sweepInterval = setInterval(() => {
+      this._sweep().catch((error) => {
+        logger.error('generation sweep error', {
+          error
+        });
+      });
+    }, ABANDONED_SWEEP_INTERVAL_MS);
+    this._work();
+  }
+
+  // waits up to drainTimeoutMs for running jobs to finish, then for the image requests already sent to land and be recorded
+  // anything left unfinished stays in the database for the next start to pick up, minus the lines it already has images for
+  async stop(drainTimeoutMs: number) {
+    this._draining = true;
+    if (this._sweepInterval) {
+      // clients can't reach us to poll while we shut down, so nothing should time out
+      clearInterval(this._sweepInterval);
+    }
+    this._wakeWorker?.();
+
+    let timeout: NodeJS.Timeout | undefined;
+    const drained = await Promise.race([
+      this._settle().then(() => true),
+      new Promise<boolean>((resolve) => {
+        timeout = setTimeout(() => resolve(false), drainTimeoutMs);
+      })
+    ]);
+    clearTimeout(timeout);
+    if (!drained) {
+      logger.info('generation drain timed out', {
+        generationIds: [...this._activeStatuses.keys()]
+      });
+      this._stopping = true;
+      await this._settle();
+    }
+  }
+
+  subscribe(jobId: string) {
+    this._subscribers.set(jobId, (this._subscribers.get(jobId) ?? 0) + 1);
+  }
+
+  // unfinished jobs that stop being touched are assumed to have lost their client, finished ones are deleted an hour later
+  async touch(jobId: string) {
+    await this._storage.execute('UPDATE generation_jobs SET last_polled_at = ? WHERE id = ?', [Date.now(), jobId]);
+  }
+
+  // the client gets the usual timeout to reconnect or fall back to polling before its job is cancelled
+  async unsubscribe(jobId: string) {
+    const count = (this._subscribers.get(jobId) ?? 1) - 1;
+    if (count > 0) {
+      this._subscribers.set(jobId, count);
+      return;
+    }
+
+    this._subscribers.delete(jobId);
+    await this.touch(jobId);
+  }
+
+  // a cached image if there is one, well liked ones more often and disliked ones less, otherwise a newly generated one
+  async _chooseImage(jobId: string, trackId: string, task: Task, shouldStart: () => boolean) {
+    const { line_index, prompt, prompt_hash } = task;
+    const existingRecords = await this._storage.query(`SELECT id, (SELECT COUNT(*) FROM image_ratings WHERE generation_id = generations.id AND rating > 0) AS upvotes, (SELECT COUNT(*) FROM image_ratings WHERE generation_id = generations.id AND rating < 0) AS downvotes FROM generations WHERE words_hash = ? AND ${NOT_REJECTED_CONDITION}`, [prompt_hash, -this._rejectDownvotes]);
+    if (existingRecords.length > 0) {
+      lineCacheResults.inc({
+        result: 'hit'
+      });
+      const imageId: string = getWeightedRandomElement(existingRecords, ({ downvotes, upvotes }) => (upvotes + 1) / (downvotes + 1)).id;
+      // so the image cache evicts it last
+      await this._storage.execute('UPDATE generations SET last_used_at = ? WHERE id = ?', [Date.now(), imageId]);
+      return imageId;
+    }
+
+    lineCacheResults.inc({
+      result: 'miss'
+    });
+    // finishes even if the job doesn't, we might as well cache what we generated
+    const imageIds = await this._scheduler.schedule(this._provider, () => {
+      logger.info('generating', {
+        generationId: jobId,
+        lineIndex: line_index,
+        prompt
+      });
+      return this._generateImages(trackId, task);
+    }, shouldStart);
+    logger.info('generated', {
+      generationId: jobId,
+      lineIndex: line_index,
+      prompt
+    });
+    return getRandomElement(imageIds);
+  }
+
+  async _generateImages(trackId: string, { negative_prompt, prompt, prompt_hash, start_time_ms }: Task) {
+    const endTimer = imageGenerationDuration.startTimer({
+      provider: this._provider
+    });
+    let images: GeneratedImage[];
+    try {
+      images = await this._imageGenerator.generate(prompt, negative_prompt);
+      endTimer({
+        status: 'success'
+      });
+    } catch (error) {
+      endTimer({
+        status: getErrorStatus(error)
+      });
+      throw error;
+    }
+
+    return Promise.all(images.map(async ({ data }) => {
+      const imageId = v4();
+      await writeImage(imageId, data);
+      try {
+        await this._storage.execute('INSERT INTO generations (id, last_used_at, start_time_ms, track_id, words_hash) VALUES (?, ?, ?, ?, ?)', [imageId, Date.now(), start_time_ms, trackId, prompt_hash]);
+      } catch (error) {
+        // a file without a row would never be shown, the image cache would only clean it up later
+        await deleteImage(imageId);
+        throw error;
+      }
+
+      return imageId;
+    }));
+  }
+
+  async _run(jobId: string) {
+    const isActive = () => this._activeStatuses.get(jobId) === 'inProgress';
+    const shouldStart = () => isActive() && !this._stopping;
+    this._activeStatuses.set(jobId, 'inProgress');
+    try {
+      // it may have been cancelled while it was waiting
+      const jobRows = await this._storage.query('SELECT status, track_id FROM generation_jobs WHERE id = ?', [jobId]);
+      const job = jobRows[0];
+      if (!(job && UNFINISHED_STATUSES.includes(job.status))) {
+        return;
+      }
+
+      await this._setStatus(jobId, 'inProgress');
+      const tasks = await this._storage.query<Task>('SELECT * FROM generation_tasks WHERE job_id = ? AND image_id IS NULL ORDER BY line_index ASC', [jobId]);
+      // lines resumed after a restart stick with whatever the lines sharing their prompt already got
+      const doneRows = await this._storage.query('SELECT image_id, prompt_hash FROM generation_tasks WHERE job_id = ? AND image_id IS NOT NULL', [jobId]);
+      const imageIdsByPromptHash: Map<string, Promise<string>> = new Map(doneRows.map(({ image_id, prompt_hash }) => [prompt_hash, Promise.resolve(image_id)]));
+      const totalRows = await this._storage.query('SELECT COUNT(*) AS total FROM generation_tasks WHERE job_id = ?', [jobId]);
+      const { total } = totalRows[0];
+      let done = total - tasks.length;
+      await Promise.all(tasks.map(async (task) => {
+        const { id, line_index, prompt_hash, words } = task;
+        if (!shouldStart()) {
+          return;
+        }
+
+        try {
+          // the first line with each prompt picks the image, before anything's awaited so the rest see it
+          let pendingImageId = imageIdsByPromptHash.get(prompt_hash);
+          if (pendingImageId) {
+            lineCacheResults.inc({
+              result: 'hit'
+            });
+          } else {
+            pendingImageId = this._chooseImage(jobId, job.track_id, task, shouldStart);
+            imageIdsByPromptHash.set(prompt_hash, pendingImageId);
+          }
+
+          const imageId = await pendingImageId;
+          if (!isActive()) {
+            return;
+          }
+
+          await this._storage.execute('UPDATE generation_tasks SET image_id = ? WHERE id = ?', [imageId, id]);
+          done++;
+          const event: LineCompletedEvent = {
+            done,
+            index: line_index,
+            total,
+            words
+          };
+          this.emit('line', jobId, event);
+        } catch (error) {
+          if (!isActive() || error instanceof ScheduleCancelledError) {
+            return;
+          }
+
+          logger.error('generation error', {
+            error,
+            generationId: jobId,
+            lineIndex: line_index
+          });
+          await this._setStatus(jobId, 'error');
+        }
+      }));
+
+      // lines skipped because we're stopping leave it inProgress, to be resumed
+      if (isActive() && done === total) {
+        await this._setStatus(jobId, 'done');
+      }
+    } catch (error) {
+      logger.error('generation error', {
+        error,
+        generationId: jobId
+      });
+      await this._setStatus(jobId, 'error').catch(() => {});
+    } finally {
+      this._activeStatuses.delete(jobId);
+    }
+  }
+
+  // only unfinished jobs can change status, so a late cancel can't clobber a job that just finished
+  async _setStatus(jobId: string, status: GenerationStatus) {
+    if (this._activeStatuses.has(jobId)) {
+      this._activeStatuses.set(jobId, status);
+    }
+
+    const { affectedRows } = await this._storage.execute(`UPDATE generation_jobs SET status = ? WHERE id = ? AND status IN (${UNFINISHED_STATUSES.map(() => '?').join(',')})`, [status, jobId, ...UNFINISHED_STATUSES]);
+    const changed = affectedRows > 0;
+    if (changed) {
+      this.emit('change', jobId);
+    }
+
+    return changed;
+  }
+
+  // resolves once everything in flight has finished, however it finished, including anything started meanwhile
+  async _settle() {
+    while (this._inFlight.size > 0) {
+      await Promise.all([...this._inFlight].map((promise) => promise.catch(() => {})));
+    }
+  }
+
+  async _sweep() {
+    const now = Date.now();
+    await Promise.all([...this._subscribers.keys()].map((jobId) => this.touch(jobId)));
+    const abandonedRows = await this._storage.query(`SELECT id FROM generation_jobs WHERE last_polled_at < ? AND status IN (${UNFINISHED_STATUSES.map(() => '?').join(',')})`, [now - this._timeoutMs, ...UNFINISHED_STATUSES]);
+    await Promise.all(abandonedRows.map(({ id }) => {
+      logger.info('generation timed out', {
+        generationId: id
+      });
+      return this._setStatus(id, 'cancelled');
+    }));
+
+    const finishedParams = [now - FINISHED_RETENTION_MS, ...UNFINISHED_STATUSES];
+    const finishedCondition = `last_polled_at < ? AND status NOT IN (${UNFINISHED_STATUSES.map(() => '?').join(',')})`;
+    await this._storage.execute(`DELETE FROM generation_tasks WHERE job_id IN (SELECT id FROM generation_jobs WHERE ${finishedCondition})`, finishedParams);
+    await this._storage.execute(`DELETE FROM generation_jobs WHERE ${finishedCondition}`, finishedParams);
+  }
+
+  _track<T>(promise: Promise<T>) {
+    this._inFlight.add(promise);
+    promise.finally(() => this._inFlight.delete(promise)).catch(() => {});
+    return promise;
+  }
+
+  // queued jobs run oldest first, a few at a time, with whatever was running before a restart going first
+  async _work() {
+    while (!this._draining) {
+      try {
+        if (this._runningQueuedJobs.size < this._concurrentJobs) {
+          const runningIds = [...this._runningQueuedJobs];
+          const excludeRunning = runningIds.length > 0 ? `AND id NOT IN (${runningIds.map(() => '?').join(',')})` : '';
+          const nextRows = await this._storage.query(`SELECT id FROM generation_jobs WHERE queued = ? AND status IN (${UNFINISHED_STATUSES.map(() => '?').join(',')}) ${excludeRunning} ORDER BY status = 'inProgress' DESC, created_at ASC LIMIT 1`, [true, ...UNFINISHED_STATUSES, ...runningIds]);
+          const next = nextRows[0];
+          if (next) {
+            this._runningQueuedJobs.add(next.id);
+            this._track(this._run(next.id)).finally(() => {
+              this._runningQueuedJobs.delete(next.id);
+              this._wakeWorker?.();
+            });
+            continue;
+          }
+        }
+      } catch (error) {
+        logger.error('generation worker error', {
+          error
+        });
+      }
+
+      await new Promise<void>((resolve) => {
+        const timeout = setTimeout(resolve, WORKER_IDLE_MS);
+        this._wakeWorker = () => {
+          clearTimeout(timeout);
+          resolve();
+        };
+      });
+      this._wakeWorker = null;
+    }
+  }
+}
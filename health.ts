@@ -0,0 +1,43 @@
+import fs from 'fs';
+
+import { ImageGenerator } from './image-generators';
+import { IMAGES_DIR } from './image-store';
+import logger from './logger';
+import { Storage } from './storage';
+
+export const HEALTH_CHECKS = ['database', 'images', 'imageProvider'] as const;
+
+export type HealthCheck = typeof HEALTH_CHECKS[number];
+
+export type HealthCheckResults = Record<HealthCheck, 'ok' | 'error'>;
+
+// actually writes a file, a full disk or read-only mount passes a permissions check
+async function checkImagesWritable() {
+  const probePath = `${IMAGES_DIR}/.healthcheck`;
+  await fs.promises.writeFile(probePath, '');
+  await fs.promises.rm(probePath, {
+    force: true
+  });
+}
+
+// every check runs every time, so the results show everything that's wrong rather than the first thing
+export async function runHealthChecks(storage: Storage, imageGenerator: ImageGenerator): Promise<HealthCheckResults> {
+  const checks: Record<HealthCheck, () => Promise<unknown>> = {
+    database: () => storage.query('SELECT 1'),
+    images: checkImagesWritable,
+    imageProvider: () => imageGenerator.ping()
+  };
+  const results = await Promise.all(HEALTH_CHECKS.map(async (check) => {
+    try {
+      await checks[check]();
+      return 'ok';
+    } catch (error) {
+      logger.warn('health check failed', {
+        check,
+        error
+      });
+      return 'error';
+    }
+  }));
+  return Object.fromEntries(HEALTH_CHECKS.map((check, index) => [check, results[index]])) as HealthCheckResults;
+}
@@ -0,0 +1,215 @@
+import { deleteImage, listImages } from './image-store';
+import logger from './logger';
+import { imageCacheBytes, imageCacheReclaimedBytes, imageCacheRemovals } from './metrics';
+import { Storage } from './storage';
+
+export const IMAGE_EVICTION_ORDERS = ['lru', 'rating'] as const;
+
+export type ImageEvictionOrder = typeof IMAGE_EVICTION_ORDERS[number];
+
+export interface ImageCacheOptions {
+  // lru evicts the least recently used first, rating the lowest rated first with the least recently used breaking ties
+  eviction: ImageEvictionOrder;
+  // how often the server cleans up, 0 to leave it to `yarn images clean`
+  intervalMs: number;
+  // how much space images and their thumbnails can take up before some are evicted, 0 for no limit
+  maxBytes: number;
+}
+
+export interface CleanupReport {
+  // nothing was actually removed, this is what would have been
+  dryRun: boolean;
+  evicted: {
+    bytes: number;
+    images: number;
+  };
+  // rows whose file was gone, removed so they're never picked again
+  missing: number;
+  // files without a row, which nothing could ever show
+  orphaned: {
+    bytes: number;
+    images: number;
+  };
+  // images in saved visualisations whose file is gone, kept since removing them wouldn't bring the file back
+  savedMissing: string[];
+  // what's left on disk afterwards
+  totalBytes: number;
+}
+
+// a file this new may still be getting its row, and an image picked this recently may be about to be shown
+const GRACE_MS = 10 * 60 * 1000;
+const RATING_SQL = '(SELECT COALESCE(SUM(rating), 0) FROM image_ratings WHERE generation_id = generations.id)';
+
+// keeps the images directory and the generations table in step, and within a disk budget
+// images in saved visualisations or in generations still around to be played are never evicted
+export default class ImageCache {
+  // one cleanup at a time, so the schedule can't remove images out from under another
+  _cleaning: Promise<unknown> = Promise.resolve();
+  _interval: NodeJS.Timeout | null = null;
+  _options: ImageCacheOptions;
+  _storage: Storage;
+
+  constructor(storage: Storage, options: ImageCacheOptions) {
+    this._options = options;
+    this._storage = storage;
+  }
+
+  // removes orphaned files and rows without files, then evicts images until what's left fits in maxBytes
+  clean(dryRun = false) {
+    const cleaned = this._cleaning.then(() => this._clean(dryRun));
+    this._cleaning = cleaned.catch(() => {});
+    return cleaned;
+  }
+
+  start() {
+    if (this._options.intervalMs === 0) {
+      return;
+    }
+
+    this._interval = setInterval(() => {
+      this.clean().then((report) => {
+        logger.info('image cache cleaned', {
+          ...report
+        });
+      }, (error) => {
+        logger.error('image cache cleanup error', {
+          error
+        });
+      });
+    }, this._options.intervalMs);
+  }
+
+  stop() {
+    if (this._interval) {
+      clearInterval(this._interval);
+      this._interval = null;
+    }
+  }
+
+  async _clean(dryRun: boolean) {
+    const { eviction, maxBytes } = this._options;
+    const now = Date.now();
+    // rows before files, since files are written before their rows, so every row read has its file listed
+    const rowIds = new Set((await this._storage.query('SELECT id FROM generations')).map(({ id }) => id as string));
+    const savedIds = new Set((await this._storage.query('SELECT DISTINCT generation_id FROM visualisation_lines')).map(({ generation_id }) => generation_id as string));
+    const taskIds = new Set((await this._storage.query('SELECT DISTINCT image_id FROM generation_tasks WHERE image_id IS NOT NULL')).map(({ image_id }) => image_id as string));
+    const images = await listImages();
+    const report: CleanupReport = {
+      dryRun,
+      evicted: {
+        bytes: 0,
+        images: 0
+      },
+      missing: 0,
+      orphaned: {
+        bytes: 0,
+        images: 0
+      },
+      savedMissing: [],
+      totalBytes: 0
+    };
+
+    // what's on disk once the orphans are gone, by image ID
+    const sizes: Map<string, number> = new Map();
+    for (const { id, modifiedAtMs, sizeBytes } of images) {
+      if (rowIds.has(id) || modifiedAtMs > now - GRACE_MS) {
+        sizes.set(id, sizeBytes);
+        continue;
+      }
+
+      if (!dryRun) {
+        await deleteImage(id);
+      }
+
+      report.orphaned.images++;
+      report.orphaned.bytes += sizeBytes;
+    }
+
+    const originalIds = new Set(images.filter(({ original }) => original).map(({ id }) => id));
+    for (const id of rowIds) {
+      // generations that could still be playing are left alone, like they are when evicting
+      if (originalIds.has(id) || taskIds.has(id)) {
+        continue;
+      }
+
+      if (savedIds.has(id)) {
+        report.savedMissing.push(id);
+        continue;
+      }
+
+      if (!dryRun) {
+        // takes any thumbnail left behind with it
+        await this._remove(id);
+      }
+
+      sizes.delete(id);
+      report.missing++;
+    }
+
+    let totalBytes = [...sizes.values()].reduce((total, sizeBytes) => total + sizeBytes, 0);
+    if (maxBytes > 0 && totalBytes > maxBytes) {
+      // images never picked since last_used_at was added are null, which sorts first
+      const order = eviction === 'rating' ? `${RATING_SQL} ASC, last_used_at ASC` : 'last_used_at ASC';
+      const candidateRows = await this._storage.query(`
+        SELECT id FROM generations
+        WHERE (last_used_at IS NULL OR last_used_at < ?)
+        AND NOT EXISTS (SELECT 1 FROM visualisation_lines WHERE generation_id = generations.id)
+        AND NOT EXISTS (SELECT 1 FROM generation_tasks WHERE image_id = generations.id)
+        ORDER BY ${order}
+      `, [now - GRACE_MS]);
+      for (const { id } of candidateRows) {
+        if (totalBytes <= maxBytes) {
+          break;
+        }
+
+        // rows without files were dealt with above
+        const sizeBytes = sizes.get(id);
+        if (sizeBytes === undefined) {
+          continue;
+        }
+
+        if (!dryRun) {
+          await this._remove(id);
+        }
+
+        totalBytes -= sizeBytes;
+        report.evicted.images++;
+        report.evicted.bytes += sizeBytes;
+      }
+    }
+
+    report.totalBytes = totalBytes;
+    if (report.savedMissing.length > 0) {
+      logger.warn('saved images missing', {
+        imageIds: report.savedMissing
+      });
+    }
+
+    if (!dryRun) {
+      imageCacheBytes.set(totalBytes);
+      imageCacheReclaimedBytes.inc({
+        reason: 'evicted'
+      }, report.evicted.bytes);
+      imageCacheReclaimedBytes.inc({
+        reason: 'orphaned'
+      }, report.orphaned.bytes);
+      imageCacheRemovals.inc({
+        reason: 'evicted'
+      }, report.evicted.images);
+      imageCacheRemovals.inc({
+        reason: 'missing'
+      }, report.missing);
+      imageCacheRemovals.inc({
+        reason: 'orphaned'
+      }, report.orphaned.images);
+    }
+
+    return report;
+  }
+
+  async _remove(imageId: string) {
+    await this._storage.execute('DELETE FROM generations WHERE id = ?', [imageId]);
+    await this._storage.execute('DELETE FROM image_ratings WHERE generation_id = ?', [imageId]);
+    await deleteImage(imageId);
+  }
+}
@@ -0,0 +1,40 @@
+import axios from 'axios';
+
+import { fromBase64, GeneratedImage, ImageGenerator, ImageGeneratorOptions, PING_TIMEOUT_MS } from './common';
+
+// https://github.com/AUTOMATIC1111/stable-diffusion-webui/wiki/API
+export default class Automatic1111ImageGenerator implements ImageGenerator {
+  _options: ImageGeneratorOptions;
+  _url: string;
+
+  constructor(options: ImageGeneratorOptions) {
+    if (!options.url) {
+      throw new Error('automatic1111 image generator requires a URL');
+    }
+
+    this._options = options;
+    this._url = options.url.replace(/\/$/, '');
+  }
+
+  async generate(prompt: string, negativePrompt = ''): Promise<GeneratedImage[]> {
+    const { count, height, width } = this._options;
+    const { data: { images } } = await axios.post<{ images: string[]; }>(`${this._url}/sdapi/v1/txt2img`, {
+      batch_size: count,
+      height,
+      negative_prompt: negativePrompt,
+      prompt,
+      width
+    });
+    // newer versions append the ControlNet etc. previews after the batch, only keep what we asked for
+    return images.slice(0, count).map(fromBase64);
+  }
+
+  async ping() {
+    await axios.get(`${this._url}/sdapi/v1/progress`, {
+      params: {
+        skip_current_image: true
+      },
+      timeout: PING_TIMEOUT_MS
+    });
+  }
+}
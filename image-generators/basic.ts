@@ -0,0 +1,32 @@
+import axios from 'axios';
+
+import { fromBase64, GeneratedImage, ImageGenerator, ImageGeneratorOptions, PING_TIMEOUT_MS } from './common';
+
+// the original contract: POST { prompt } and get back { images } as base64 strings
+export default class BasicImageGenerator implements ImageGenerator {
+  _url: string;
+
+  constructor({ url }: ImageGeneratorOptions) {
+    if (!url) {
+      throw new Error('basic image generator requires a URL');
+    }
+
+    this._url = url;
+  }
+
+  async generate(prompt: string, negativePrompt?: string): Promise<GeneratedImage[]> {
+    const { data: { images } } = await axios.post<{ images: string[]; }>(this._url, {
+      ...(negativePrompt ? { negative_prompt: negativePrompt } : {}),
+      prompt
+    });
+    return images.map(fromBase64);
+  }
+
+  // the contract only has the POST, so any response at all means it's up
+  async ping() {
+    await axios.get(this._url, {
+      timeout: PING_TIMEOUT_MS,
+      validateStatus: () => true
+    });
+  }
+}
@@ -0,0 +1,115 @@
+import fs from 'fs';
+
+import axios from 'axios';
+
+import { detectMimeType, GeneratedImage, ImageGenerator, ImageGeneratorOptions, PING_TIMEOUT_MS } from './common';
+
+const HISTORY_POLL_INTERVAL_MS = 1000;
+const HISTORY_POLL_TIMEOUT_MS = 5 * 60 * 1000;
+
+interface HistoryEntry {
+  outputs: Record<string, {
+    images?: {
+      filename: string;
+      subfolder: string;
+      type: string;
+    }[];
+  }>;
+  status?: {
+    completed: boolean;
+    status_str: string;
+  };
+}
+
+// workflows are exported with "Save (API Format)", any string value that is exactly one of these placeholders gets substituted
+function fillPlaceholders(value: unknown, replacements: Record<string, string | number>): unknown {
+  if (typeof value === 'string') {
+    if (value in replacements) {
+      return replacements[value];
+    }
+
+    return Object.entries(replacements).reduce((result, [placeholder, replacement]) => result.split(placeholder).join(replacement.toString()), value);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => fillPlaceholders(item, replacements));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fillPlaceholders(item, replacements)]));
+  }
+
+  return value;
+}
+
+export default class ComfyUiImageGenerator implements ImageGenerator {
+  _options: ImageGeneratorOptions;
+  _url: string;
+  _workflow: unknown;
+
+  constructor(options: ImageGeneratorOptions) {
+    if (!(options.url && options.workflowPath)) {
+      throw new Error('comfyui image generator requires a URL and workflow path');
+    }
+
+    this._options = options;
+    this._url = options.url.replace(/\/$/, '');
+    this._workflow = JSON.parse(fs.readFileSync(options.workflowPath, 'utf8'));
+  }
+
+  async generate(prompt: string, negativePrompt = ''): Promise<GeneratedImage[]> {
+    const { count, height, width } = this._options;
+    const workflow = fillPlaceholders(this._workflow, {
+      '%count%': count,
+      '%height%': height,
+      '%negative_prompt%': negativePrompt,
+      '%prompt%': prompt,
+      '%seed%': Math.floor(Math.random() * Number.MAX_SAFE_INTEGER),
+      '%width%': width
+    });
+    const { data: { prompt_id } } = await axios.post<{ prompt_id: string; }>(`${this._url}/prompt`, {
+      prompt: workflow
+    });
+
+    const startedAt = Date.now();
+    let entry: HistoryEntry | undefined;
+    while (!entry) {
+      if (Date.now() - startedAt >= HISTORY_POLL_TIMEOUT_MS) {
+        throw new Error(`comfyui prompt ${prompt_id} timed out`);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, HISTORY_POLL_INTERVAL_MS));
+      const { data } = await axios.get<Record<string, HistoryEntry>>(`${this._url}/history/${prompt_id}`);
+      entry = data[prompt_id];
+    }
+
+    if (entry.status && entry.status.status_str === 'error') {
+      throw new Error(`comfyui prompt ${prompt_id} failed`);
+    }
+
+    const outputImages = Object.values(entry.outputs)
+      .flatMap(({ images }) => images ?? [])
+      .filter(({ type }) => type === 'output');
+    return Promise.all(outputImages.map(async ({ filename, subfolder, type }) => {
+      const { data } = await axios.get<ArrayBuffer>(`${this._url}/view`, {
+        params: {
+          filename,
+          subfolder,
+          type
+        },
+        responseType: 'arraybuffer'
+      });
+      const buffer = Buffer.from(data);
+      return {
+        data: buffer,
+        mimeType: detectMimeType(buffer)
+      };
+    }));
+  }
+
+  async ping() {
+    await axios.get(`${this._url}/system_stats`, {
+      timeout: PING_TIMEOUT_MS
+    });
+  }
+}
@@ -0,0 +1,53 @@
+export interface GeneratedImage {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface ImageGenerator {
+  generate(prompt: string, negativePrompt?: string): Promise<GeneratedImage[]>;
+  // resolves if the service is answering, for health checks, so it should be cheap
+  ping(): Promise<void>;
+}
+
+// health checks are polled, so a hung service shouldn't hold them up for long
+export const PING_TIMEOUT_MS = 5000;
+
+export interface ImageGeneratorOptions {
+  apiKey?: string;
+  count: number;
+  format: 'jpeg' | 'png' | 'webp';
+  height: number;
+  model?: string;
+  url?: string;
+  width: number;
+  workflowPath?: string;
+}
+
+// providers don't always honour the requested format, so go by the bytes we actually got back
+export function detectMimeType(data: Buffer) {
+  if (data[0] === 0xff && data[1] === 0xd8) {
+    return 'image/jpeg';
+  }
+
+  if (data.subarray(0, 4).toString('hex') === '89504e47') {
+    return 'image/png';
+  }
+
+  if (data.subarray(0, 4).toString('ascii') === 'RIFF' && data.subarray(8, 12).toString('ascii') === 'WEBP') {
+    return 'image/webp';
+  }
+
+  if (data.subarray(0, 5).toString('utf8').trimStart().startsWith('<')) {
+    return 'image/svg+xml';
+  }
+
+  return 'application/octet-stream';
+}
+
+export function fromBase64(image: string): GeneratedImage {
+  const data = Buffer.from(image.replace(/^data:[^,]*,/, ''), 'base64');
+  return {
+    data,
+    mimeType: detectMimeType(data)
+  };
+}
@@ -0,0 +1,52 @@
+import { Limits } from '../scheduler';
+import Automatic1111ImageGenerator from './automatic1111';
+import BasicImageGenerator from './basic';
+import ComfyUiImageGenerator from './comfyui';
+import { ImageGenerator, ImageGeneratorOptions } from './common';
+import OpenAiImageGenerator from './openai';
+import StubImageGenerator from './stub';
+
+export * from './common';
+
+export const IMAGE_GENERATOR_PROVIDERS = ['automatic1111', 'basic', 'comfyui', 'openai', 'stub'] as const;
+
+export type ImageGeneratorProvider = typeof IMAGE_GENERATOR_PROVIDERS[number];
+
+// local GPU boxes only do one thing at a time, paid APIs need keeping within quota, basic matches the old 3 images every 10 seconds
+export const DEFAULT_PROVIDER_LIMITS: Record<ImageGeneratorProvider, Limits> = {
+  automatic1111: {
+    maxConcurrent: 1,
+    requestsPerMinute: 0
+  },
+  basic: {
+    maxConcurrent: 3,
+    requestsPerMinute: 18
+  },
+  comfyui: {
+    maxConcurrent: 1,
+    requestsPerMinute: 0
+  },
+  openai: {
+    maxConcurrent: 2,
+    requestsPerMinute: 5
+  },
+  stub: {
+    maxConcurrent: 0,
+    requestsPerMinute: 0
+  }
+};
+
+export function createImageGenerator(provider: ImageGeneratorProvider, options: ImageGeneratorOptions): ImageGenerator {
+  switch (provider) {
+    case 'automatic1111':
+      return new Automatic1111ImageGenerator(options);
+    case 'basic':
+      return new BasicImageGenerator(options);
+    case 'comfyui':
+      return new ComfyUiImageGenerator(options);
+    case 'openai':
+      return new OpenAiImageGenerator(options);
+    case 'stub':
+      return new StubImageGenerator(options);
+  }
+}
@@ -0,0 +1,43 @@
+import axios from 'axios';
+
+import { fromBase64, GeneratedImage, ImageGenerator, ImageGeneratorOptions, PING_TIMEOUT_MS } from './common';
+
+// anything that speaks https://platform.openai.com/docs/api-reference/images/create, which has no negative prompts
+export default class OpenAiImageGenerator implements ImageGenerator {
+  _options: ImageGeneratorOptions;
+  _url: string;
+
+  constructor(options: ImageGeneratorOptions) {
+    this._options = options;
+    this._url = (options.url ?? 'https://api.openai.com').replace(/\/$/, '');
+  }
+
+  async generate(prompt: string): Promise<GeneratedImage[]> {
+    const { apiKey, count, format, height, model, width } = this._options;
+    const isGptImage = model?.startsWith('gpt-image');
+    const { data: { data } } = await axios.post<{ data: { b64_json: string; }[]; }>(`${this._url}/v1/images/generations`, {
+      model,
+      n: count,
+      prompt,
+      size: `${width}x${height}`,
+      // gpt-image models always return base64 and reject response_format, but they're the only ones that take output_format
+      ...(isGptImage ? { output_format: format } : { response_format: 'b64_json' })
+    }, {
+      headers: apiKey ? {
+        Authorization: `Bearer ${apiKey}`
+      } : {}
+    });
+    return data.map(({ b64_json }) => fromBase64(b64_json));
+  }
+
+  // listing models checks the API key too, without spending anything
+  async ping() {
+    const { apiKey } = this._options;
+    await axios.get(`${this._url}/v1/models`, {
+      headers: apiKey ? {
+        Authorization: `Bearer ${apiKey}`
+      } : {},
+      timeout: PING_TIMEOUT_MS
+    });
+  }
+}
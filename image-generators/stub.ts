@@ -0,0 +1,36 @@
+import md5 from 'md5';
+
+import { GeneratedImage, ImageGenerator, ImageGeneratorOptions } from './common';
+
+function escapeXml(text: string) {
+  return text.replace(/[<>&'"]/g, (character) => `&#${character.charCodeAt(0)};`);
+}
+
+// draws the prompt onto a flat colour derived from it, so the whole pipeline can run without an image service
+export default class StubImageGenerator implements ImageGenerator {
+  _options: ImageGeneratorOptions;
+
+  constructor(options: ImageGeneratorOptions) {
+    this._options = options;
+  }
+
+  async generate(prompt: string): Promise<GeneratedImage[]> {
+    const { count, height, width } = this._options;
+    const hash = md5(prompt);
+    return new Array(count).fill(null).map((_, index) => {
+      const hue = (parseInt(hash.slice(0, 6), 16) + index * 47) % 360;
+      const svg = [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+        `<rect width="100%" height="100%" fill="hsl(${hue}, 60%, 45%)"/>`,
+        `<text x="50%" y="50%" fill="#fff" font-family="sans-serif" font-size="${Math.round(width / 24)}" text-anchor="middle">${escapeXml(prompt.slice(0, 60))}</text>`,
+        '</svg>'
+      ].join('');
+      return {
+        data: Buffer.from(svg, 'utf8'),
+        mimeType: 'image/svg+xml'
+      };
+    });
+  }
+
+  async ping() {}
+}
@@ -0,0 +1,126 @@
+// node libraries
+import fs from 'fs';
+import path from 'path';
+
+// third party libraries
+import sharp from 'sharp';
+import { validate } from 'uuid';
+
+// our libraries
+import { detectMimeType, GeneratedImage } from './image-generators';
+
+// constants
+export const IMAGES_DIR = path.resolve(`${__dirname}/images`);
+const THUMBNAILS_DIR = `${IMAGES_DIR}/thumbnails`;
+const THUMBNAIL_WIDTH = 256;
+
+export const IMAGE_VARIANTS = ['full', 'thumbnail'] as const;
+
+export type ImageVariant = typeof IMAGE_VARIANTS[number];
+
+// an image on disk, its thumbnail included
+export interface StoredImage {
+  id: string;
+  // the newer of the two, so an image that's still being saved isn't mistaken for an orphan
+  modifiedAtMs: number;
+  // false when only the thumbnail is left
+  original: boolean;
+  sizeBytes: number;
+}
+
+// removes every variant too, missing files are fine since the point is for them to be gone
+export async function deleteImage(imageId: string) {
+  await Promise.all([`${IMAGES_DIR}/${imageId}`, `${THUMBNAILS_DIR}/${imageId}`].map((imagePath) => fs.promises.rm(imagePath, {
+    force: true
+  })));
+}
+
+export function getImageUrl(imageId: string, variant: ImageVariant = 'full') {
+  return `/images/${imageId}${variant === 'full' ? '' : `?variant=${variant}`}`;
+}
+
+// every image and thumbnail on disk, anything not named like an image ID (like .gitkeep) is left out
+export async function listImages(): Promise<StoredImage[]> {
+  const images: Map<string, StoredImage> = new Map();
+  for (const [directory, original] of [[IMAGES_DIR, true], [THUMBNAILS_DIR, false]] as const) {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(directory, {
+        withFileTypes: true
+      });
+    } catch (error: any) {
+      // thumbnails only get a directory once the first one is made
+      if (error.code === 'ENOENT') {
+        continue;
+      }
+
+      throw error;
+    }
+
+    for (const entry of entries) {
+      if (!entry.isFile() || !validate(entry.name)) {
+        continue;
+      }
+
+      const { mtimeMs, size } = await fs.promises.stat(`${directory}/${entry.name}`);
+      const image = images.get(entry.name) ?? {
+        id: entry.name,
+        modifiedAtMs: 0,
+        original: false,
+        sizeBytes: 0
+      };
+      image.modifiedAtMs = Math.max(image.modifiedAtMs, mtimeMs);
+      image.original = image.original || original;
+      image.sizeBytes += size;
+      images.set(entry.name, image);
+    }
+  }
+
+  return [...images.values()];
+}
+
+// images are never modified once written, so variants are generated on first request and kept
+export async function readImage(imageId: string, variant: ImageVariant = 'full'): Promise<GeneratedImage> {
+  if (variant === 'thumbnail') {
+    const thumbnailPath = `${THUMBNAILS_DIR}/${imageId}`;
+    try {
+      return {
+        data: await fs.promises.readFile(thumbnailPath),
+        mimeType: 'image/jpeg'
+      };
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    const original = await fs.promises.readFile(`${IMAGES_DIR}/${imageId}`);
+    const data = await sharp(original)
+      .resize({
+        width: THUMBNAIL_WIDTH,
+        withoutEnlargement: true
+      })
+      .jpeg({
+        quality: 80
+      })
+      .toBuffer();
+    await fs.promises.mkdir(THUMBNAILS_DIR, {
+      recursive: true
+    });
+    await fs.promises.writeFile(thumbnailPath, data);
+    return {
+      data,
+      mimeType: 'image/jpeg'
+    };
+  }
+
+  const data = await fs.promises.readFile(`${IMAGES_DIR}/${imageId}`);
+  return {
+    data,
+    mimeType: detectMimeType(data)
+  };
+}
+
+export function writeImage(imageId: string, data: Buffer) {
+  return fs.promises.writeFile(`${IMAGES_DIR}/${imageId}`, data);
+}
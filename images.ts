@@ -0,0 +1,54 @@
+import { config } from 'dotenv';
+
+import { loadImageCacheConfig } from './config';
+import { createDbStorage } from './db';
+import ImageCache from './image-cache';
+import { listImages } from './image-store';
+import logger from './logger';
+
+config();
+
+const USAGE = 'usage: yarn images clean [--dry-run] | yarn images status';
+
+async function run(command: string | undefined, args: string[]) {
+  const { db, imageCache: options } = loadImageCacheConfig();
+  const storage = createDbStorage(db);
+  try {
+    switch (command) {
+      case 'clean': {
+        if (args.some((arg) => arg !== '--dry-run')) {
+          console.error(USAGE);
+          return 1;
+        }
+
+        const report = await new ImageCache(storage, options).clean(args.includes('--dry-run'));
+        console.log(report.dryRun ? 'would clean' : 'cleaned', report);
+        return 0;
+      }
+      case 'status': {
+        const images = await listImages();
+        const countRows = await storage.query('SELECT COUNT(*) AS count FROM generations');
+        console.log('status', {
+          files: images.length,
+          maxBytes: options.maxBytes,
+          rows: Number(countRows[0].count),
+          totalBytes: images.reduce((total, { sizeBytes }) => total + sizeBytes, 0)
+        });
+        return 0;
+      }
+      default:
+        console.error(USAGE);
+        return 1;
+    }
+  } finally {
+    await storage.close();
+  }
+}
+
+const [command, ...args] = process.argv.slice(2);
+run(command, args).then((code) => process.exit(code), (error) => {
+  logger.error('images error', {
+    error
+  });
+  process.exit(1);
+});
@@ -0,0 +1,65 @@
+import { isInstrumental, LyricsLine } from './lyrics-providers';
+
+export const INTERLUDE_VISUALS = ['albumArt', 'mood', 'pan'] as const;
+
+export type InterludeVisual = typeof INTERLUDE_VISUALS[number];
+
+export interface InterludeOptions {
+  // a gap this long between the end of one line and the start of the next is an instrumental break, 0 to only go by ♪ markers
+  minGapMs: number;
+  // album art, an image of the song's mood, or a slow pan over the image before it
+  visual: InterludeVisual;
+}
+
+// what gets shown in order, a sung line or an instrumental break with no words
+export interface TimelineLine extends LyricsLine {
+  interlude: boolean;
+}
+
+// lyrics only say when each line starts, so this is how long one is taken to be sung for when looking for gaps
+const SUNG_LINE_MS = 5000;
+
+// swaps ♪ markers for interludes and adds them for long enough intros, gaps and outros, the outro needs the song's duration
+export function findInterludes(lines: LyricsLine[], durationMs: number | null, { minGapMs }: InterludeOptions) {
+  const timeline: TimelineLine[] = [];
+  const addInterlude = (startTimeMs: number) => {
+    // a run of markers, or a marker after a gap, is still just one break
+    if (timeline[timeline.length - 1]?.interlude) {
+      return;
+    }
+
+    timeline.push({
+      interlude: true,
+      startTimeMs,
+      words: ''
+    });
+  };
+  const isGap = (fromMs: number, toMs: number) => minGapMs > 0 && toMs - fromMs >= minGapMs;
+
+  const firstLine = lines[0];
+  if (firstLine && !isInstrumental(firstLine) && isGap(0, firstLine.startTimeMs)) {
+    addInterlude(0);
+  }
+
+  lines.forEach((line, index) => {
+    if (isInstrumental(line)) {
+      addInterlude(line.startTimeMs);
+      return;
+    }
+
+    timeline.push({
+      interlude: false,
+      startTimeMs: line.startTimeMs,
+      words: line.words
+    });
+
+    // a marker coming up says where the break starts better than we can guess
+    const nextLine = lines[index + 1];
+    const nextStartTimeMs = nextLine ? nextLine.startTimeMs : durationMs;
+    if ((!nextLine || !isInstrumental(nextLine)) && nextStartTimeMs !== null && isGap(line.startTimeMs + SUNG_LINE_MS, nextStartTimeMs)) {
+      addInterlude(line.startTimeMs + SUNG_LINE_MS);
+    }
+  });
+
+  return timeline;
+}
@@ -0,0 +1,54 @@
+import axios from 'axios';
+
+type Fields = Record<string, unknown>;
+
+type Level = 'error' | 'info' | 'warn';
+
+// errors don't survive JSON.stringify on their own, and axios ones drag the whole request along
+function serialise(key: string, value: unknown) {
+  if (axios.isAxiosError(value)) {
+    return {
+      message: value.message,
+      method: value.config?.method,
+      name: value.name,
+      status: value.response?.status,
+      url: value.config?.url
+    };
+  }
+
+  if (value instanceof Error) {
+    return {
+      message: value.message,
+      name: value.name,
+      stack: value.stack
+    };
+  }
+
+  return value;
+}
+
+// one JSON object per line, so whatever collects the logs can parse and filter them
+function write(level: Level, message: string, fields: Fields) {
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    message,
+    ...fields
+  }, serialise);
+  (level === 'info' ? process.stdout : process.stderr).write(`${line}\n`);
+}
+
+// anything to do with a generation should include its generationId, so everything about it can be pulled out together
+const logger = {
+  error(message: string, fields: Fields = {}) {
+    write('error', message, fields);
+  },
+  info(message: string, fields: Fields = {}) {
+    write('info', message, fields);
+  },
+  warn(message: string, fields: Fields = {}) {
+    write('warn', message, fields);
+  }
+};
+
+export default logger;
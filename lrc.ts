@@ -0,0 +1,42 @@
+export interface LrcLine {
+  startTimeMs: number;
+  words: string;
+}
+
+const TIMESTAMP_REGEX = /\[(\d+):(\d{1,2}(?:[.:]\d{1,3})?)\]/g;
+
+// https://en.wikipedia.org/wiki/LRC_(file_format), metadata tags like [ar:...] are skipped
+export function parseLrc(contents: string): LrcLine[] {
+  const lines: LrcLine[] = [];
+  contents.split(/\r?\n/).forEach((rawLine) => {
+    const timestamps = [...rawLine.matchAll(TIMESTAMP_REGEX)];
+    if (timestamps.length === 0) {
+      return;
+    }
+
+    const words = rawLine.replace(TIMESTAMP_REGEX, '').trim();
+    timestamps.forEach(([, minutes, seconds]) => {
+      lines.push({
+        startTimeMs: Math.round((parseInt(minutes, 10) * 60 + parseFloat(seconds.replace(':', '.'))) * 1000),
+        words
+      });
+    });
+  });
+  return lines.sort((a, b) => a.startTimeMs - b.startTimeMs);
+}
+
+function formatTimestamp(timeMs: number) {
+  const centiseconds = Math.round(timeMs / 10);
+  const minutes = Math.floor(centiseconds / 6000);
+  const seconds = (centiseconds % 6000) / 100;
+  return `[${minutes.toString().padStart(2, '0')}:${seconds.toFixed(2).padStart(5, '0')}]`;
+}
+
+// the inverse of parseLrc, tags like { ar: 'Artist', ti: 'Title' } are written as the header
+export function formatLrc(lines: LrcLine[], tags: Record<string, string | null | undefined> = {}) {
+  const tagLines = Object.entries(tags)
+    .filter(([, value]) => value)
+    .map(([key, value]) => `[${key}:${value}]`);
+  const lyricLines = lines.map(({ startTimeMs, words }) => `${formatTimestamp(startTimeMs)}${words}`);
+  return `${[...tagLines, ...lyricLines].join('\n')}\n`;
+}
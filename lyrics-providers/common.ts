@@ -0,0 +1,41 @@
+export interface LyricsLine {
+  startTimeMs: number;
+  words: string;
+}
+
+export interface LyricsProvider {
+  name: string;
+  // resolves to null when this provider doesn't have the track, so the next one can be tried
+  getLines(trackId: string): Promise<LyricsLine[] | null>;
+}
+
+export class LyricsUnavailableError extends Error {}
+
+// marks where the singing stops for an instrumental break, empty lines mean the same thing so they're turned into it
+export const INSTRUMENTAL_MARKER = '♪';
+
+export function isInstrumental({ words }: LyricsLine) {
+  return words === INSTRUMENTAL_MARKER;
+}
+
+// every provider's lines go through here, lines that fail it are treated the same as the provider not having them
+export function validateLines(lines: LyricsLine[]) {
+  const filteredLines = lines
+    .filter(({ startTimeMs }) => Number.isFinite(startTimeMs))
+    .map(({ startTimeMs, words }) => ({
+      startTimeMs,
+      words: words?.trim() ? words : INSTRUMENTAL_MARKER
+    }))
+    .sort((a, b) => a.startTimeMs - b.startTimeMs);
+  const sungLines = filteredLines.filter((line) => !isInstrumental(line));
+  if (sungLines.length === 0) {
+    throw new LyricsUnavailableError('no lines');
+  }
+
+  // on Spotify this shows up as "These lyrics aren't synced to the song yet."
+  if (sungLines.every((line) => line.startTimeMs === 0)) {
+    throw new LyricsUnavailableError('lines are not synced');
+  }
+
+  return filteredLines;
+}
@@ -0,0 +1,24 @@
+import { Storage } from '../storage';
+import { LyricsLine, LyricsProvider } from './common';
+
+// lines we've already fetched from another provider, or imported by hand
+export default class DatabaseLyricsProvider implements LyricsProvider {
+  name = 'database';
+  _storage: Storage;
+
+  constructor(storage: Storage) {
+    this._storage = storage;
+  }
+
+  async getLines(trackId: string): Promise<LyricsLine[] | null> {
+    const cachedLines = await this._storage.query('SELECT words, start_time_ms FROM lyrics WHERE track_id = ? ORDER BY start_time_ms ASC', [trackId]);
+    if (cachedLines.length === 0) {
+      return null;
+    }
+
+    return cachedLines.map(({ start_time_ms, words }) => ({
+      startTimeMs: start_time_ms,
+      words
+    }));
+  }
+}
@@ -0,0 +1,80 @@
+import logger from '../logger';
+import { getErrorStatus, lyricsProviderErrors } from '../metrics';
+import { Storage } from '../storage';
+import { LyricsLine, LyricsProvider, LyricsUnavailableError, validateLines } from './common';
+import DatabaseLyricsProvider from './database';
+import LrcLyricsProvider from './lrc';
+import SpotifyLyricsProvider from './spotify';
+
+export * from './common';
+export { default as OverrideLyricsProvider } from './override';
+
+export const LYRICS_PROVIDERS = ['database', 'lrc', 'spotify'] as const;
+
+export type LyricsProviderName = typeof LYRICS_PROVIDERS[number];
+
+export interface LyricsProviderDependencies {
+  getAccessToken: () => Promise<string>;
+  getIsrc: (trackId: string) => Promise<string | null>;
+  lrcDirectory: string;
+  spotifyLyricsUrl: string;
+  storage: Storage;
+}
+
+export function createLyricsProviders(names: LyricsProviderName[], { getAccessToken, getIsrc, lrcDirectory, spotifyLyricsUrl, storage }: LyricsProviderDependencies): LyricsProvider[] {
+  return names.map((name) => {
+    switch (name) {
+      case 'database':
+        return new DatabaseLyricsProvider(storage);
+      case 'lrc':
+        return new LrcLyricsProvider(lrcDirectory, getIsrc);
+      case 'spotify':
+        return new SpotifyLyricsProvider(spotifyLyricsUrl, getAccessToken);
+    }
+  });
+}
+
+// tries each provider in order, if none of them have usable lines this throws LyricsUnavailableError,
+// unless one of them failed outright, in which case that error is rethrown
+export async function findLyrics(providers: LyricsProvider[], trackId: string): Promise<{ lines: LyricsLine[]; provider: LyricsProvider; }> {
+  let lastError: unknown = null;
+  for (const provider of providers) {
+    try {
+      const lines = await provider.getLines(trackId);
+      if (!lines) {
+        continue;
+      }
+
+      return {
+        lines: validateLines(lines),
+        provider
+      };
+    } catch (error) {
+      if (error instanceof LyricsUnavailableError) {
+        logger.info('lyrics unavailable', {
+          provider: provider.name,
+          reason: error.message,
+          trackId
+        });
+        continue;
+      }
+
+      logger.error('lyrics provider error', {
+        error,
+        provider: provider.name,
+        trackId
+      });
+      lyricsProviderErrors.inc({
+        provider: provider.name,
+        status: getErrorStatus(error)
+      });
+      lastError = error;
+    }
+  }
+
+  if (lastError) {
+    throw lastError;
+  }
+
+  throw new LyricsUnavailableError('no provider has lyrics');
+}
@@ -0,0 +1,55 @@
+import fs from 'fs';
+import path from 'path';
+
+import logger from '../logger';
+import { parseLrc } from '../lrc';
+import { LyricsLine, LyricsProvider } from './common';
+
+// a directory of <track ID>.lrc or <ISRC>.lrc files
+export default class LrcLyricsProvider implements LyricsProvider {
+  name = 'lrc';
+  _directory: string;
+  _getIsrc: (trackId: string) => Promise<string | null>;
+
+  constructor(directory: string, getIsrc: (trackId: string) => Promise<string | null>) {
+    this._directory = directory;
+    this._getIsrc = getIsrc;
+  }
+
+  async getLines(trackId: string): Promise<LyricsLine[] | null> {
+    const byTrackId = await this._read(trackId);
+    if (byTrackId) {
+      return byTrackId;
+    }
+
+    let isrc: string | null = null;
+    try {
+      isrc = await this._getIsrc(trackId);
+    } catch (error) {
+      logger.error('lrc isrc lookup error', {
+        error,
+        trackId
+      });
+    }
+
+    return isrc ? this._read(isrc.toUpperCase()) : null;
+  }
+
+  async _read(key: string) {
+    // keys come from the URL, don't let them wander out of the directory
+    if (!/^[A-Za-z0-9]+$/.test(key)) {
+      return null;
+    }
+
+    try {
+      const contents = await fs.promises.readFile(path.join(this._directory, `${key}.lrc`), 'utf8');
+      return parseLrc(contents);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+
+      throw error;
+    }
+  }
+}
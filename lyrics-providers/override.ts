@@ -0,0 +1,41 @@
+import { v4 } from 'uuid';
+
+import { Storage } from '../storage';
+import { LyricsLine, LyricsProvider } from './common';
+
+// lines people have corrected by hand, which always win over every other provider's
+export default class OverrideLyricsProvider implements LyricsProvider {
+  name = 'override';
+  _storage: Storage;
+
+  constructor(storage: Storage) {
+    this._storage = storage;
+  }
+
+  // resolves to whether there was an override to delete
+  async delete(trackId: string) {
+    const { affectedRows } = await this._storage.execute('DELETE FROM lyrics_overrides WHERE track_id = ?', [trackId]);
+    return affectedRows > 0;
+  }
+
+  async getLines(trackId: string): Promise<LyricsLine[] | null> {
+    const overrideRows = await this._storage.query('SELECT start_time_ms, words FROM lyrics_overrides WHERE track_id = ? ORDER BY line_index ASC', [trackId]);
+    if (overrideRows.length === 0) {
+      return null;
+    }
+
+    return overrideRows.map(({ start_time_ms, words }) => ({
+      startTimeMs: start_time_ms,
+      words
+    }));
+  }
+
+  // replaces any earlier override for the track as a whole, lines may have been merged, split or deleted since
+  async save(trackId: string, lines: LyricsLine[], editedBy: string) {
+    const now = Date.now();
+    await this.delete(trackId);
+    await Promise.all(lines.map(({ startTimeMs, words }, index) => {
+      return this._storage.execute('INSERT INTO lyrics_overrides (id, edited_at, edited_by, line_index, start_time_ms, track_id, words) VALUES (?, ?, ?, ?, ?, ?, ?)', [v4(), now, editedBy, index, startTimeMs, trackId, words]);
+    }));
+  }
+}
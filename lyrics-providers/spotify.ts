@@ -0,0 +1,35 @@
+import axios from 'axios';
+
+import { LyricsLine, LyricsProvider } from './common';
+
+export default class SpotifyLyricsProvider implements LyricsProvider {
+  name = 'spotify';
+  _getAccessToken: () => Promise<string>;
+  _url: string;
+
+  constructor(url: string, getAccessToken: () => Promise<string>) {
+    this._getAccessToken = getAccessToken;
+    this._url = url;
+  }
+
+  async getLines(trackId: string): Promise<LyricsLine[] | null> {
+    try {
+      const { data } = await axios.get(`${this._url}/color-lyrics/v2/track/${trackId}?format=json&vocalRemoval=false`, {
+        headers: {
+          'App-Platform': 'WebPlayer',
+          Authorization: `Bearer ${await this._getAccessToken()}`
+        }
+      });
+      return data.lyrics.lines.map(({ startTimeMs, words }: { startTimeMs: string; words: string; }) => ({
+        startTimeMs: parseInt(startTimeMs, 10),
+        words
+      }));
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+
+      throw error;
+    }
+  }
+}
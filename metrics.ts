@@ -0,0 +1,87 @@
+import axios from 'axios';
+import { collectDefaultMetrics, Counter, Gauge, Histogram, register } from 'prom-client';
+
+collectDefaultMetrics();
+
+export { register };
+
+export const imageGenerationDuration = new Histogram({
+  buckets: [0.5, 1, 2, 5, 10, 20, 30, 60, 120, 300],
+  help: 'How long image generation requests take, by provider and outcome (success, an HTTP status or error)',
+  labelNames: ['provider', 'status'],
+  name: 'image_generation_duration_seconds'
+});
+
+export const imageCacheBytes = new Gauge({
+  help: 'Disk space taken up by images and their thumbnails, as of the last cleanup',
+  name: 'image_cache_bytes'
+});
+
+export const imageCacheReclaimedBytes = new Counter({
+  help: 'Disk space freed by cleaning up images, by reason (evicted or orphaned)',
+  labelNames: ['reason'],
+  name: 'image_cache_reclaimed_bytes_total'
+});
+
+// missing means a row whose file was already gone
+export const imageCacheRemovals = new Counter({
+  help: 'Images removed by cleaning up, by reason (evicted, orphaned or missing)',
+  labelNames: ['reason'],
+  name: 'image_cache_removals_total'
+});
+
+// lines that reuse an image generated earlier in the same job count as hits, they didn't need a request of their own
+export const lineCacheResults = new Counter({
+  help: 'Lines served from the image cache (hit) or needing a new image generated (miss)',
+  labelNames: ['result'],
+  name: 'generation_line_cache_total'
+});
+
+export const lyricsProviderErrors = new Counter({
+  help: 'Lyrics providers failing outright, by provider and HTTP status where there was one',
+  labelNames: ['provider', 'status'],
+  name: 'lyrics_provider_errors_total'
+});
+
+export const quotaRejections = new Counter({
+  help: 'Generation and export requests turned away for going over a quota, by quota and who it applied to',
+  labelNames: ['quota', 'scope'],
+  name: 'quota_rejections_total'
+});
+
+export const spotifyTokenRefreshes = new Counter({
+  help: 'Spotify web player access token refreshes, by outcome',
+  labelNames: ['outcome'],
+  name: 'spotify_token_refreshes_total'
+});
+
+// the same labelling for errors everywhere, axios errors are labelled with the status they got back
+export function getErrorStatus(error: unknown) {
+  const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+  return status === undefined ? 'error' : status.toString();
+}
+
+// queue gauges are read when scraped rather than kept up to date, the database is the source of truth
+export function registerQueueMetrics(getJobCounts: () => Promise<{ inProgress: number; waiting: number; }>, getPendingRequests: () => number) {
+  new Gauge({
+    async collect() {
+      this.set((await getJobCounts()).waiting);
+    },
+    help: 'Generations waiting in the queue',
+    name: 'generation_queue_length'
+  });
+  new Gauge({
+    async collect() {
+      this.set((await getJobCounts()).inProgress);
+    },
+    help: 'Generations in progress',
+    name: 'generations_in_progress'
+  });
+  new Gauge({
+    collect() {
+      this.set(getPendingRequests());
+    },
+    help: 'Image generation requests waiting for a slot from the scheduler',
+    name: 'image_generation_requests_pending'
+  });
+}
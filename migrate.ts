@@ -0,0 +1,43 @@
+import { config } from 'dotenv';
+
+import { createDbStorage } from './db';
+import logger from './logger';
+import { getMigrationStatus, migrate } from './migrations';
+
+config();
+
+const USAGE = 'usage: yarn migrate up | yarn migrate status';
+
+async function run(command: string | undefined) {
+  const storage = createDbStorage();
+  try {
+    switch (command) {
+      case 'up': {
+        const applied = await migrate(storage);
+        console.log(applied.length > 0 ? 'migrated' : 'already up to date', {
+          applied
+        });
+        return 0;
+      }
+      case 'status': {
+        const statuses = await getMigrationStatus(storage);
+        statuses.forEach(({ appliedAt, id }) => {
+          console.log(`${appliedAt === null ? 'pending' : `applied ${new Date(appliedAt).toISOString()}`}\t${id}`);
+        });
+        return statuses.some(({ appliedAt }) => appliedAt === null) ? 2 : 0;
+      }
+      default:
+        console.error(USAGE);
+        return 1;
+    }
+  } finally {
+    await storage.close();
+  }
+}
+
+run(process.argv[2]).then((code) => process.exit(code), (error) => {
+  logger.error('migrate error', {
+    error
+  });
+  process.exit(1);
+});
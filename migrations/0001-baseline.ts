@@ -0,0 +1,98 @@
+import { createTable, Migration, Table } from './common';
+
+// everything that was created at boot before there were migrations, hence IF NOT EXISTS
+const TABLES: Table[] = [
+  {
+    columns: [
+      'id VARCHAR(36) NOT NULL PRIMARY KEY',
+      'created_at DATETIME DEFAULT CURRENT_TIMESTAMP',
+      'words_hash VARCHAR(32) NOT NULL'
+    ],
+    indexes: ['words_hash'],
+    name: 'generations'
+  },
+  {
+    columns: [
+      'id VARCHAR(36) NOT NULL PRIMARY KEY',
+      'created_at DATETIME DEFAULT CURRENT_TIMESTAMP',
+      'words TEXT NOT NULL',
+      'start_time_ms INTEGER NOT NULL',
+      'track_id VARCHAR(30) NOT NULL'
+    ],
+    indexes: ['track_id'],
+    name: 'lyrics'
+  },
+  {
+    columns: [
+      'id VARCHAR(36) NOT NULL PRIMARY KEY',
+      'created_at BIGINT NOT NULL',
+      'last_polled_at BIGINT NOT NULL',
+      'queued BOOLEAN NOT NULL',
+      'status VARCHAR(16) NOT NULL',
+      'track_id VARCHAR(30) NOT NULL'
+    ],
+    indexes: ['status'],
+    name: 'generation_jobs'
+  },
+  {
+    columns: [
+      'id VARCHAR(36) NOT NULL PRIMARY KEY',
+      'image_id VARCHAR(36)',
+      'job_id VARCHAR(36) NOT NULL',
+      'line_index INTEGER NOT NULL',
+      'negative_prompt TEXT NOT NULL',
+      'prompt TEXT NOT NULL',
+      'prompt_hash VARCHAR(32) NOT NULL',
+      'start_time_ms INTEGER NOT NULL',
+      'words TEXT NOT NULL'
+    ],
+    indexes: ['job_id'],
+    name: 'generation_tasks'
+  },
+  {
+    columns: [
+      'id VARCHAR(36) NOT NULL PRIMARY KEY',
+      'created_at DATETIME DEFAULT CURRENT_TIMESTAMP',
+      'generation_id VARCHAR(36) NOT NULL',
+      'rating TINYINT NOT NULL'
+    ],
+    indexes: ['generation_id'],
+    name: 'image_ratings'
+  },
+  {
+    columns: [
+      'id VARCHAR(36) NOT NULL PRIMARY KEY',
+      'created_at DATETIME DEFAULT CURRENT_TIMESTAMP',
+      'artists TEXT',
+      'name VARCHAR(255) NOT NULL',
+      'thumbnail_url TEXT',
+      'title TEXT',
+      'track_id VARCHAR(30) NOT NULL'
+    ],
+    indexes: [],
+    name: 'visualisations'
+  },
+  {
+    columns: [
+      'id VARCHAR(36) NOT NULL PRIMARY KEY',
+      'generation_id VARCHAR(36) NOT NULL',
+      'line_index INTEGER NOT NULL',
+      'start_time_ms INTEGER NOT NULL',
+      'visualisation_id VARCHAR(36) NOT NULL',
+      'words TEXT NOT NULL'
+    ],
+    indexes: ['visualisation_id'],
+    name: 'visualisation_lines'
+  }
+];
+
+const migration: Migration = {
+  id: '0001-baseline',
+  async up(storage) {
+    for (const table of TABLES) {
+      await createTable(storage, table);
+    }
+  }
+};
+
+export default migration;
@@ -0,0 +1,21 @@
+import { Migration } from './common';
+
+// which track and line each image was generated for, so the cache can be browsed by track
+const migration: Migration = {
+  id: '0002-generation-lines',
+  async up(storage) {
+    await storage.execute('ALTER TABLE generations ADD COLUMN track_id VARCHAR(30)');
+    await storage.execute('ALTER TABLE generations ADD COLUMN start_time_ms INTEGER');
+    await storage.execute('CREATE INDEX generations_track_id ON generations (track_id)');
+    // older images are only known to belong to a line if they were saved in a visualisation
+    const firstLineCondition = 'visualisation_lines.generation_id = generations.id ORDER BY visualisation_lines.id ASC LIMIT 1';
+    await storage.execute(`
+      UPDATE generations SET
+        track_id = (SELECT visualisations.track_id FROM visualisation_lines JOIN visualisations ON visualisations.id = visualisation_lines.visualisation_id WHERE ${firstLineCondition}),
+        start_time_ms = (SELECT visualisation_lines.start_time_ms FROM visualisation_lines WHERE ${firstLineCondition})
+      WHERE track_id IS NULL
+    `);
+  }
+};
+
+export default migration;
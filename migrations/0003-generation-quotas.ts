@@ -0,0 +1,29 @@
+import { createTable, Migration } from './common';
+
+// who started each generation, and how many images everyone has had, so quotas can be enforced
+const migration: Migration = {
+  id: '0003-generation-quotas',
+  async up(storage) {
+    await storage.execute('ALTER TABLE generation_jobs ADD COLUMN client_ip VARCHAR(45)');
+    await storage.execute('ALTER TABLE generation_jobs ADD COLUMN spotify_user_id VARCHAR(255)');
+    await storage.execute('CREATE INDEX generation_jobs_client_ip ON generation_jobs (client_ip)');
+    await storage.execute('CREATE INDEX generation_jobs_spotify_user_id ON generation_jobs (spotify_user_id)');
+    await createTable(storage, {
+      columns: [
+        'id VARCHAR(36) NOT NULL PRIMARY KEY',
+        'client_ip VARCHAR(45) NOT NULL',
+        'created_at BIGINT NOT NULL',
+        'images INTEGER NOT NULL',
+        'spotify_user_id VARCHAR(255) NOT NULL'
+      ],
+      indexes: [
+        'client_ip',
+        'created_at',
+        'spotify_user_id'
+      ],
+      name: 'image_usage'
+    });
+  }
+};
+
+export default migration;
@@ -0,0 +1,25 @@
+import { createTable, Migration } from './common';
+
+// corrected lines for a track, which replace whatever the providers have for it
+const migration: Migration = {
+  id: '0004-lyrics-overrides',
+  async up(storage) {
+    await createTable(storage, {
+      columns: [
+        'id VARCHAR(36) NOT NULL PRIMARY KEY',
+        'edited_at BIGINT NOT NULL',
+        'edited_by VARCHAR(255) NOT NULL',
+        'line_index INTEGER NOT NULL',
+        'start_time_ms INTEGER NOT NULL',
+        'track_id VARCHAR(30) NOT NULL',
+        'words TEXT NOT NULL'
+      ],
+      indexes: [
+        'track_id'
+      ],
+      name: 'lyrics_overrides'
+    });
+  }
+};
+
+export default migration;
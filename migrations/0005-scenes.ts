@@ -0,0 +1,12 @@
+import { Migration } from './common';
+
+// which scene each line belongs to, lines in a scene share an image, older lines are each a scene of their own
+const migration: Migration = {
+  id: '0005-scenes',
+  async up(storage) {
+    await storage.execute('ALTER TABLE generation_tasks ADD COLUMN scene_index INTEGER');
+    await storage.execute('ALTER TABLE visualisation_lines ADD COLUMN scene_index INTEGER');
+  }
+};
+
+export default migration;
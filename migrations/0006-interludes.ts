@@ -0,0 +1,12 @@
+import { Migration } from './common';
+
+// which visual each instrumental break shows, null for sung lines
+const migration: Migration = {
+  id: '0006-interludes',
+  async up(storage) {
+    await storage.execute('ALTER TABLE generation_tasks ADD COLUMN interlude VARCHAR(16)');
+    await storage.execute('ALTER TABLE visualisation_lines ADD COLUMN interlude VARCHAR(16)');
+  }
+};
+
+export default migration;
@@ -0,0 +1,12 @@
+import { Migration } from './common';
+
+// when each image was last picked for a line, so the least recently used can be evicted first, null for ones picked before this
+const migration: Migration = {
+  id: '0007-image-cache',
+  async up(storage) {
+    await storage.execute('ALTER TABLE generations ADD COLUMN last_used_at BIGINT');
+    await storage.execute('CREATE INDEX generations_last_used_at ON generations (last_used_at)');
+  }
+};
+
+export default migration;
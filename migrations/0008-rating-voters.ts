@@ -0,0 +1,12 @@
+import { Migration } from './common';
+
+// who gave each rating, so everyone only gets one per image, older ratings have no one and are left as they are
+const migration: Migration = {
+  id: '0008-rating-voters',
+  async up(storage) {
+    await storage.execute('ALTER TABLE image_ratings ADD COLUMN spotify_user_id VARCHAR(255)');
+    await storage.execute('CREATE UNIQUE INDEX image_ratings_generation_id_spotify_user_id ON image_ratings (generation_id, spotify_user_id)');
+  }
+};
+
+export default migration;
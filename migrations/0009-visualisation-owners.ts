@@ -0,0 +1,12 @@
+import { Migration } from './common';
+
+// who saved each visualisation, older and imported ones have no one
+const migration: Migration = {
+  id: '0009-visualisation-owners',
+  async up(storage) {
+    await storage.execute('ALTER TABLE visualisations ADD COLUMN spotify_user_id VARCHAR(255)');
+    await storage.execute('CREATE INDEX visualisations_spotify_user_id ON visualisations (spotify_user_id)');
+  }
+};
+
+export default migration;
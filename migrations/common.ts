@@ -0,0 +1,27 @@
+import { Storage } from '../storage';
+
+// migrations only ever go forwards, and are never edited once released, add a new one instead
+export interface Migration {
+  id: string;
+  up(storage: Storage): Promise<void>;
+}
+
+export interface Table {
+  columns: string[];
+  indexes: string[];
+  name: string;
+}
+
+// column types need to be ones both MySQL and SQLite accept, only indexes are declared differently
+// MySQL has no CREATE INDEX IF NOT EXISTS, so its indexes go inline, SQLite doesn't allow them inline
+export async function createTable(storage: Storage, { columns, indexes, name }: Table) {
+  if (storage.dialect === 'mysql') {
+    await storage.execute(`CREATE TABLE IF NOT EXISTS ${name} (${[...columns, ...indexes.map((column) => `INDEX(${column})`)].join(', ')})`);
+    return;
+  }
+
+  await storage.execute(`CREATE TABLE IF NOT EXISTS ${name} (${columns.join(', ')})`);
+  for (const column of indexes) {
+    await storage.execute(`CREATE INDEX IF NOT EXISTS ${name}_${column} ON ${name} (${column})`);
+  }
+}
@@ -0,0 +1,81 @@
+import logger from '../logger';
+import { Storage } from '../storage';
+import baseline from './0001-baseline';
+import generationLines from './0002-generation-lines';
+import generationQuotas from './0003-generation-quotas';
+import imageCache from './0007-image-cache';
+import interludes from './0006-interludes';
+import lyricsOverrides from './0004-lyrics-overrides';
+import ratingVoters from './0008-rating-voters';
+import scenes from './0005-scenes';
+import visualisationOwners from './0009-visualisation-owners';
+import { createTable, Migration } from './common';
+
+export * from './common';
+
+// in the order they run, new migrations go on the end
+export const MIGRATIONS: Migration[] = [
+  baseline,
+  generationLines,
+  generationQuotas,
+  lyricsOverrides,
+  scenes,
+  interludes,
+  imageCache,
+  ratingVoters,
+  visualisationOwners
+];
+
+export interface MigrationStatus {
+  appliedAt: number | null;
+  id: string;
+}
+
+async function getAppliedAt(storage: Storage) {
+  await createTable(storage, {
+    columns: [
+      'id VARCHAR(255) NOT NULL PRIMARY KEY',
+      'applied_at BIGINT NOT NULL'
+    ],
+    indexes: [],
+    name: 'schema_migrations'
+  });
+  const appliedRows = await storage.query('SELECT id, applied_at FROM schema_migrations');
+  return new Map<string, number>(appliedRows.map(({ applied_at, id }) => [id, Number(applied_at)]));
+}
+
+// every known migration and when it was applied, applied ones we don't know about mean the code is older than the database
+export async function getMigrationStatus(storage: Storage): Promise<MigrationStatus[]> {
+  const appliedAt = await getAppliedAt(storage);
+  const known = MIGRATIONS.map(({ id }) => ({
+    appliedAt: appliedAt.get(id) ?? null,
+    id
+  }));
+  const unknown = Array.from(appliedAt.entries())
+    .filter(([id]) => !MIGRATIONS.some((migration) => migration.id === id))
+    .map(([id, appliedAt]) => ({
+      appliedAt,
+      id
+    }));
+  return [...known, ...unknown];
+}
+
+// runs whatever hasn't been applied yet in order, stopping at the first failure, resolves to the IDs it applied
+export async function migrate(storage: Storage) {
+  const appliedAt = await getAppliedAt(storage);
+  const applied: string[] = [];
+  for (const migration of MIGRATIONS) {
+    if (appliedAt.has(migration.id)) {
+      continue;
+    }
+
+    logger.info('migrating', {
+      id: migration.id
+    });
+    await migration.up(storage);
+    await storage.execute('INSERT INTO schema_migrations (id, applied_at) VALUES (?, ?)', [migration.id, Date.now()]);
+    applied.push(migration.id);
+  }
+
+  return applied;
+}
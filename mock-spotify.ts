@@ -0,0 +1,159 @@
+import fs from 'fs';
+import path from 'path';
+
+import { Request, Router } from 'express';
+
+import StubImageGenerator from './image-generators/stub';
+
+const ALBUM_IMAGE_SIZES = [640, 300, 64];
+const FIXTURES_PATH = path.resolve(`${__dirname}/fixtures/spotify.json`);
+const TOKEN_EXPIRES_IN_SECONDS = 60 * 60;
+
+interface MockTrack {
+  album: string;
+  artists: string[];
+  durationMs: number;
+  id: string;
+  isrc: string;
+  lyrics: {
+    startTimeMs: number;
+    words: string;
+  }[] | null;
+  name: string;
+}
+
+// only the fields we actually read, in the Web API's shape
+function toApiTrack(req: Request, { album, artists, durationMs, id, isrc, name }: MockTrack) {
+  const baseUrl = `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+  return {
+    album: {
+      images: ALBUM_IMAGE_SIZES.map((size) => ({
+        height: size,
+        url: `${baseUrl}/images/${id}`,
+        width: size
+      })),
+      name: album
+    },
+    artists: artists.map((artist) => ({
+      name: artist
+    })),
+    duration_ms: durationMs,
+    external_ids: {
+      isrc
+    },
+    external_urls: {
+      spotify: `${baseUrl}/tracks/${id}`
+    },
+    id,
+    name,
+    uri: `spotify:track:${id}`
+  };
+}
+
+// stands in for every Spotify endpoint we use, serving the tracks in fixtures/spotify.json, in mock mode only
+// anything goes for credentials, nothing is checked
+export function createMockSpotifyRouter() {
+  const { tracks }: { tracks: MockTrack[]; } = JSON.parse(fs.readFileSync(FIXTURES_PATH, 'utf8'));
+  const albumImageGenerator = new StubImageGenerator({
+    count: 1,
+    format: 'png',
+    height: ALBUM_IMAGE_SIZES[0],
+    width: ALBUM_IMAGE_SIZES[0]
+  });
+  const router = Router();
+
+  // logging in succeeds straight away, back to wherever the app asked
+  router.get('/authorize', (req, res) => {
+    const { redirect_uri, state } = req.query;
+    if (typeof redirect_uri !== 'string') {
+      res.sendStatus(400);
+      return;
+    }
+
+    const redirectUrl = new URL(redirect_uri);
+    redirectUrl.searchParams.set('code', 'mock-code');
+    if (typeof state === 'string') {
+      redirectUrl.searchParams.set('state', state);
+    }
+    res.redirect(redirectUrl.toString());
+  });
+
+  router.post('/api/token', (req, res) => {
+    res.json({
+      access_token: 'mock-access-token',
+      expires_in: TOKEN_EXPIRES_IN_SECONDS,
+      refresh_token: 'mock-refresh-token',
+      token_type: 'Bearer'
+    });
+  });
+
+  router.get('/color-lyrics/v2/track/:trackId', (req, res) => {
+    const track = tracks.find(({ id }) => id === req.params.trackId);
+    if (!track?.lyrics) {
+      res.sendStatus(404);
+      return;
+    }
+
+    res.json({
+      lyrics: {
+        lines: track.lyrics.map(({ startTimeMs, words }) => ({
+          startTimeMs: startTimeMs.toString(),
+          words
+        }))
+      }
+    });
+  });
+
+  router.get('/get_access_token', (req, res) => {
+    res.json({
+      accessToken: 'mock-web-player-token',
+      accessTokenExpirationTimestampMs: Date.now() + TOKEN_EXPIRES_IN_SECONDS * 1000,
+      isAnonymous: false
+    });
+  });
+
+  router.get('/images/:trackId', async (req, res) => {
+    const track = tracks.find(({ id }) => id === req.params.trackId);
+    if (!track) {
+      res.sendStatus(404);
+      return;
+    }
+
+    const [{ data, mimeType }] = await albumImageGenerator.generate(track.album);
+    res.set('Content-Type', mimeType);
+    res.send(data);
+  });
+
+  // everyone's the same user, so quotas are shared
+  router.get('/v1/me', (req, res) => {
+    res.json({
+      display_name: 'Mock User',
+      id: 'mock-user'
+    });
+  });
+
+  router.get('/v1/search', (req, res) => {
+    const query = typeof req.query.q === 'string' ? req.query.q.toLowerCase().split(/[\s+]+/).filter(Boolean) : [];
+    const items = tracks.filter(({ album, artists, name }) => {
+      const text = [album, ...artists, name].join(' ').toLowerCase();
+      return query.every((term) => text.includes(term));
+    });
+    res.json({
+      tracks: {
+        items: items.map((track) => toApiTrack(req, track))
+      }
+    });
+  });
+
+  router.get('/v1/tracks/:trackId', (req, res) => {
+    const track = tracks.find(({ id }) => id === req.params.trackId);
+    if (!track) {
+      res.sendStatus(404);
+      return;
+    }
+
+    res.json(toApiTrack(req, track));
+  });
+
+  return router;
+}
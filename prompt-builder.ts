@@ -0,0 +1,155 @@
+import md5 from 'md5';
+
+import { InterludeVisual } from './interludes';
+import { LyricsLine } from './lyrics-providers';
+import { PlannedLine, Scene } from './scene-planner';
+
+export interface ImagePrompt {
+  negativePrompt: string;
+  preset: string;
+  prompt: string;
+}
+
+export interface PromptContext {
+  artists?: string;
+  contextLines: number;
+  globalNegativePrompt: string;
+  preset: string;
+  title?: string;
+}
+
+// the prompt behind a line's image, and the hash that image is cached under
+export interface Shot {
+  prompt: ImagePrompt;
+  promptHash: string;
+}
+
+interface StylePreset {
+  negativePrompt: string;
+  style: string;
+}
+
+export const STYLE_PRESETS: Record<string, StylePreset> = {
+  none: {
+    negativePrompt: '',
+    style: ''
+  },
+  comic: {
+    negativePrompt: 'photo, photorealistic, 3d render',
+    style: 'comic book panel, bold ink outlines, halftone shading, vibrant flat colours'
+  },
+  photoreal: {
+    negativePrompt: 'cartoon, illustration, painting, drawing, anime',
+    style: 'photorealistic, 35mm photograph, natural lighting, shallow depth of field, highly detailed'
+  },
+  watercolour: {
+    negativePrompt: 'photo, photorealistic, 3d render, harsh lines',
+    style: 'watercolour painting, soft washes of colour, visible paper texture, loose brushwork'
+  }
+};
+
+function quote(words: string) {
+  return `"${words.replace(/"/g, '\'')}"`;
+}
+
+// the line itself always leads, everything else is there to steer short or ambiguous lines like "Yeah"
+export function buildPrompt(lines: LyricsLine[], index: number, { artists, contextLines, globalNegativePrompt, preset, title }: PromptContext): ImagePrompt {
+  const { negativePrompt, style } = STYLE_PRESETS[preset] ?? STYLE_PRESETS.none;
+  const { words } = lines[index];
+  const previousLines = lines.slice(Math.max(0, index - contextLines), index).map((line) => line.words);
+  const nextLines = lines.slice(index + 1, index + 1 + contextLines).map((line) => line.words);
+
+  const parts = [words];
+  if (title) {
+    parts.push(`from the song ${quote(title)}${artists ? ` by ${artists}` : ''}`);
+  }
+
+  if (previousLines.length > 0) {
+    parts.push(`following on from ${previousLines.map(quote).join(' ')}`);
+  }
+
+  if (nextLines.length > 0) {
+    parts.push(`leading into ${nextLines.map(quote).join(' ')}`);
+  }
+
+  if (style) {
+    parts.push(style);
+  }
+
+  return {
+    negativePrompt: [negativePrompt, globalNegativePrompt].filter(Boolean).join(', '),
+    preset,
+    prompt: parts.join(', ')
+  };
+}
+
+// a bare prompt hashes the same way plain words always have, so images cached before prompts were built still get used
+export function getPromptHash({ negativePrompt, preset, prompt }: ImagePrompt) {
+  if (preset === 'none' && !negativePrompt) {
+    return md5(prompt);
+  }
+
+  return md5(JSON.stringify([preset, prompt, negativePrompt]));
+}
+
+// a long line's later images share its prompt but need images of their own, so they're cached separately
+export function getShotHash(prompt: ImagePrompt, shotIndex: number) {
+  const promptHash = getPromptHash(prompt);
+  return shotIndex === 0 ? promptHash : md5(JSON.stringify([promptHash, shotIndex]));
+}
+
+// an instrumental break has no words to go on, so it gets the feel of the song as a whole
+export function buildMoodPrompt({ artists, globalNegativePrompt, preset, title }: PromptContext): ImagePrompt {
+  const { negativePrompt, style } = STYLE_PRESETS[preset] ?? STYLE_PRESETS.none;
+  const parts = [
+    title ? `the mood of the song ${quote(title)}${artists ? ` by ${artists}` : ''}` : 'the mood of an instrumental piece of music',
+    'atmospheric, evocative, no text'
+  ];
+  if (style) {
+    parts.push(style);
+  }
+
+  return {
+    negativePrompt: [negativePrompt, globalNegativePrompt].filter(Boolean).join(', '),
+    preset,
+    prompt: parts.join(', ')
+  };
+}
+
+// lines get their scene's prompt, interludes a mood image each, the album art (when there's a hash for it), or the image before them to pan over
+export function planShots(plannedLines: PlannedLine[], scenes: Scene[], context: PromptContext, visual: InterludeVisual, albumArtHash: string | null) {
+  // interludes have no words, so they're left out of the lines' context
+  const sungScenes = scenes.filter(({ interlude }) => !interlude);
+  const scenePrompts = scenes.map((scene) => scene.interlude ? null : buildPrompt(sungScenes, sungScenes.indexOf(scene), context));
+  const lineShots = plannedLines.map(({ imageSceneIndex, shotIndex }): Shot | null => {
+    const prompt = scenePrompts[imageSceneIndex];
+    return prompt && {
+      prompt,
+      promptHash: getShotHash(prompt, shotIndex)
+    };
+  });
+
+  const moodPrompt = buildMoodPrompt(context);
+  let interludeCount = 0;
+  const shots: Shot[] = [];
+  lineShots.forEach((lineShot, index) => {
+    if (lineShot) {
+      shots.push(lineShot);
+    } else if (visual === 'pan') {
+      // an intro has nothing before it, so it pans over the first line's image instead
+      shots.push(shots[index - 1] ?? lineShots.find(Boolean) as Shot);
+    } else if (visual === 'albumArt' && albumArtHash) {
+      shots.push({
+        // only used if the album art gets rejected or regenerated
+        prompt: moodPrompt,
+        promptHash: albumArtHash
+      });
+    } else {
+      shots.push({
+        prompt: moodPrompt,
+        promptHash: getShotHash(moodPrompt, interludeCount++)
+      });
+    }
+  });
+  return shots;
+}
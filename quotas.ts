@@ -0,0 +1,144 @@
+import { v4 } from 'uuid';
+
+import { UNFINISHED_STATUSES } from './generation-queue';
+import { quotaRejections } from './metrics';
+import { Storage } from './storage';
+
+export interface QuotaLimits {
+  // 0 means unlimited for all of them
+  concurrentExports: number;
+  concurrentGenerations: number;
+  dailyImagesPerIp: number;
+  dailyImagesPerUser: number;
+  maxUncachedLines: number;
+}
+
+// who's asking, generations are counted against both so neither a new account nor a new IP gets around them
+export interface QuotaClient {
+  ip: string;
+  spotifyUserId: string;
+}
+
+export type QuotaName = 'concurrentExports' | 'concurrentGenerations' | 'dailyImages' | 'uncachedLines';
+export type QuotaScope = 'generation' | 'ip' | 'user';
+
+// a generation or export finishing frees a slot, we can't know when that'll be so this is a guess
+const CONCURRENT_RETRY_AFTER_SECONDS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class QuotaExceededError extends Error {
+  limit: number;
+  quota: QuotaName;
+  // null when waiting won't help, like a song needing more new images than any one generation may have
+  retryAfterSeconds: number | null;
+  scope: QuotaScope;
+
+  constructor(quota: QuotaName, scope: QuotaScope, limit: number, retryAfterSeconds: number | null) {
+    super(`${quota} quota of ${limit} exceeded for ${scope}`);
+    this.limit = limit;
+    this.quota = quota;
+    this.retryAfterSeconds = retryAfterSeconds;
+    this.scope = scope;
+  }
+}
+
+// daily budgets reset at midnight UTC
+function getDayStart(now: number) {
+  return now - now % DAY_MS;
+}
+
+// images are charged when a generation starts, for every line that isn't cached, however many images the provider draws for each
+export default class Quotas {
+  _limits: QuotaLimits;
+  // checking and starting happen one at a time, so two requests at once can't both take the last slot
+  _starting: Promise<unknown> = Promise.resolve();
+  _storage: Storage;
+
+  constructor(storage: Storage, limits: QuotaLimits) {
+    this._limits = limits;
+    this._storage = storage;
+  }
+
+  async charge({ ip, spotifyUserId }: QuotaClient, images: number) {
+    const now = Date.now();
+    await this._storage.execute('INSERT INTO image_usage (id, client_ip, created_at, images, spotify_user_id) VALUES (?, ?, ?, ?, ?)', [v4(), ip, now, images, spotifyUserId]);
+    // only today's usage counts for anything
+    await this._storage.execute('DELETE FROM image_usage WHERE created_at < ?', [getDayStart(now)]);
+  }
+
+  // throws a QuotaExceededError for the first quota that starting a generation, or just generating images, would go over
+  async check(client: QuotaClient, { generation, images }: { generation: boolean; images: number; }) {
+    const { concurrentGenerations, dailyImagesPerIp, dailyImagesPerUser, maxUncachedLines } = this._limits;
+    try {
+      if (generation && maxUncachedLines > 0 && images > maxUncachedLines) {
+        throw new QuotaExceededError('uncachedLines', 'generation', maxUncachedLines, null);
+      }
+
+      const scopes: [QuotaScope, string, string, number][] = [
+        ['ip', 'client_ip', client.ip, dailyImagesPerIp],
+        ['user', 'spotify_user_id', client.spotifyUserId, dailyImagesPerUser]
+      ];
+      for (const [scope, column, value, dailyImages] of scopes) {
+        if (generation && concurrentGenerations > 0) {
+          const runningRows = await this._storage.query(`SELECT COUNT(*) AS running FROM generation_jobs WHERE ${column} = ? AND status IN (${UNFINISHED_STATUSES.map(() => '?').join(',')})`, [value, ...UNFINISHED_STATUSES]);
+          if (Number(runningRows[0].running) >= concurrentGenerations) {
+            throw new QuotaExceededError('concurrentGenerations', scope, concurrentGenerations, CONCURRENT_RETRY_AFTER_SECONDS);
+          }
+        }
+
+        if (images > 0 && dailyImages > 0) {
+          const now = Date.now();
+          const usageRows = await this._storage.query(`SELECT COALESCE(SUM(images), 0) AS used FROM image_usage WHERE ${column} = ? AND created_at >= ?`, [value, getDayStart(now)]);
+          if (Number(usageRows[0].used) + images > dailyImages) {
+            throw new QuotaExceededError('dailyImages', scope, dailyImages, Math.ceil((getDayStart(now) + DAY_MS - now) / 1000));
+          }
+        }
+      }
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        quotaRejections.inc({
+          quota: error.quota,
+          scope: error.scope
+        });
+      }
+
+      throw error;
+    }
+  }
+
+  // throws a QuotaExceededError if the client already has as many video exports waiting or in progress as they may have
+  checkExports(unfinished: Record<'ip' | 'user', number>) {
+    const { concurrentExports } = this._limits;
+    if (concurrentExports === 0) {
+      return;
+    }
+
+    for (const scope of ['ip', 'user'] as const) {
+      if (unfinished[scope] >= concurrentExports) {
+        quotaRejections.inc({
+          quota: 'concurrentExports',
+          scope
+        });
+        throw new QuotaExceededError('concurrentExports', scope, concurrentExports, CONCURRENT_RETRY_AFTER_SECONDS);
+      }
+    }
+  }
+
+  // checks, starts and charges a generation needing the given number of new images, resolves to whatever start does
+  start<T>(client: QuotaClient, images: number, start: () => Promise<T>) {
+    const started = this._starting.then(async () => {
+      await this.check(client, {
+        generation: true,
+        images
+      });
+      const result = await start();
+      if (images > 0) {
+        await this.charge(client, images);
+      }
+
+      return result;
+    });
+    this._starting = started.catch(() => {});
+    return started;
+  }
+}
@@ -0,0 +1,120 @@
+import { TimelineLine } from './interludes';
+
+export interface ScenePlannerOptions {
+  // a line showing longer than this gets more than one image, 0 to never split lines
+  maxShotMs: number;
+  // lines shorter than this are merged with the ones after them into one scene, 0 to never merge
+  minSceneMs: number;
+}
+
+// one or more consecutive lines showing the same image, or a single long line's images in turn
+// an interlude is always a scene of its own
+export interface Scene extends TimelineLine {
+  endTimeMs: number;
+  lineIndexes: number[];
+  // an earlier scene with the same words, whose images this one reuses
+  repeatOf: number | null;
+  shotCount: number;
+}
+
+// what actually gets shown, in order: every line once, plus a later entry for each extra image a long line gets
+export interface PlannedLine extends TimelineLine {
+  // the scene whose images this shows, which is an earlier one for a repeated chorus
+  imageSceneIndex: number;
+  sceneIndex: number;
+  // 0 for a line's first image
+  shotIndex: number;
+}
+
+// the last line has nothing after it to say how long it shows for
+const LAST_LINE_MS = 5000;
+// however long a line is, more images than this would just be noise
+const MAX_SHOTS_PER_LINE = 4;
+
+// repeats are matched on their words alone, ignoring case, punctuation and spacing
+function normaliseWords(words: string) {
+  return words.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+}
+
+export function planScenes(lines: TimelineLine[], { maxShotMs, minSceneMs }: ScenePlannerOptions) {
+  const getEndTimeMs = (index: number) => index + 1 < lines.length ? lines[index + 1].startTimeMs : lines[index].startTimeMs + LAST_LINE_MS;
+
+  // short lines are merged in with whatever follows, as long as the scene doesn't get long enough to need splitting
+  const groups: number[][] = [];
+  const isInterlude = (group: number[]) => lines[group[0]].interlude;
+  lines.forEach((line, index) => {
+    const group = groups[groups.length - 1];
+    if (group && !line.interlude && !isInterlude(group)) {
+      const groupStartTimeMs = lines[group[0]].startTimeMs;
+      const groupMs = line.startTimeMs - groupStartTimeMs;
+      if (groupMs < minSceneMs && (maxShotMs === 0 || getEndTimeMs(index) - groupStartTimeMs <= maxShotMs)) {
+        group.push(index);
+        return;
+      }
+    }
+
+    // a short line that couldn't take the next one in joins the scene before it instead, if that has room
+    const previousGroup = groups[groups.length - 2];
+    if (group && previousGroup && !isInterlude(group) && !isInterlude(previousGroup) && getEndTimeMs(group[group.length - 1]) - lines[group[0]].startTimeMs < minSceneMs && (maxShotMs === 0 || getEndTimeMs(index - 1) - lines[previousGroup[0]].startTimeMs <= maxShotMs)) {
+      previousGroup.push(...(groups.pop() as number[]));
+    }
+
+    groups.push([index]);
+  });
+
+  const sceneIndexesByWords: Map<string, number> = new Map();
+  const scenes: Scene[] = groups.map((lineIndexes, sceneIndex) => {
+    const { interlude, startTimeMs } = lines[lineIndexes[0]];
+    const endTimeMs = getEndTimeMs(lineIndexes[lineIndexes.length - 1]);
+    const words = lineIndexes.map((index) => lines[index].words).join(' / ');
+    const key = normaliseWords(words);
+    const repeatOf = interlude ? null : sceneIndexesByWords.get(key) ?? null;
+    if (!interlude && repeatOf === null) {
+      sceneIndexesByWords.set(key, sceneIndex);
+    }
+
+    return {
+      endTimeMs,
+      interlude,
+      lineIndexes,
+      repeatOf,
+      // only single lines are split, merged ones are short by definition
+      shotCount: lineIndexes.length === 1 && !interlude && maxShotMs > 0 ? Math.min(Math.ceil((endTimeMs - startTimeMs) / maxShotMs), MAX_SHOTS_PER_LINE) : 1,
+      startTimeMs,
+      words
+    };
+  });
+
+  const plannedLines: PlannedLine[] = [];
+  scenes.forEach(({ endTimeMs, interlude, lineIndexes, repeatOf, shotCount, startTimeMs }, sceneIndex) => {
+    // a repeat that runs longer than the original gets its own images for the extra shots
+    const getImageSceneIndex = (shotIndex: number) => repeatOf !== null && shotIndex < scenes[repeatOf].shotCount ? repeatOf : sceneIndex;
+    lineIndexes.forEach((lineIndex) => {
+      plannedLines.push({
+        imageSceneIndex: getImageSceneIndex(0),
+        interlude,
+        sceneIndex,
+        shotIndex: 0,
+        startTimeMs: lines[lineIndex].startTimeMs,
+        words: lines[lineIndex].words
+      });
+    });
+
+    const shotMs = (endTimeMs - startTimeMs) / shotCount;
+    for (let shotIndex = 1; shotIndex < shotCount; shotIndex++) {
+      plannedLines.push({
+        imageSceneIndex: getImageSceneIndex(shotIndex),
+        interlude,
+        sceneIndex,
+        shotIndex,
+        startTimeMs: Math.round(startTimeMs + shotIndex * shotMs),
+        words: lines[lineIndexes[0]].words
+      });
+    }
+  });
+
+  return {
+    plannedLines,
+    scenes
+  };
+}
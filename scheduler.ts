@@ -0,0 +1,192 @@
+import axios from 'axios';
+
+import logger from './logger';
+
+export interface Limits {
+  // 0 means unlimited for both
+  maxConcurrent: number;
+  requestsPerMinute: number;
+}
+
+export interface BackoffOptions {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxRetries: number;
+}
+
+export class ScheduleCancelledError extends Error {}
+
+const WINDOW_MS = 60 * 1000;
+
+class Bucket {
+  _active = 0;
+  _limits: Limits;
+  _pausedUntil = 0;
+  _startedAt: number[] = [];
+
+  constructor(limits: Limits) {
+    this._limits = limits;
+  }
+
+  // how long until this bucket can start another request, 0 if it can right now
+  delayMs(now: number) {
+    const { maxConcurrent, requestsPerMinute } = this._limits;
+    if (maxConcurrent > 0 && this._active >= maxConcurrent) {
+      return Infinity;
+    }
+
+    this._startedAt = this._startedAt.filter((startedAt) => startedAt > now - WINDOW_MS);
+    const windowDelayMs = requestsPerMinute > 0 && this._startedAt.length >= requestsPerMinute ? this._startedAt[0] + WINDOW_MS - now : 0;
+    return Math.max(windowDelayMs, this._pausedUntil - now, 0);
+  }
+
+  pause(untilMs: number) {
+    this._pausedUntil = Math.max(this._pausedUntil, untilMs);
+  }
+
+  release() {
+    this._active--;
+  }
+
+  take(now: number) {
+    this._active++;
+    this._startedAt.push(now);
+  }
+}
+
+interface Waiter {
+  buckets: Bucket[];
+  resolve: () => void;
+}
+
+function getRetryDelayMs(error: unknown, attempt: number, { baseDelayMs, maxDelayMs }: BackoffOptions) {
+  if (!axios.isAxiosError(error)) {
+    return null;
+  }
+
+  const status = error.response?.status;
+  if (!(status === 429 || status && status >= 500)) {
+    return null;
+  }
+
+  const retryAfter = parseFloat(error.response?.headers['retry-after'] ?? '');
+  if (Number.isFinite(retryAfter)) {
+    return Math.min(retryAfter * 1000, maxDelayMs);
+  }
+
+  // full jitter so a batch of failures doesn't all come back at once
+  return Math.min(baseDelayMs * 2 ** attempt, maxDelayMs) * (0.5 + Math.random() / 2);
+}
+
+// hands out request slots in FIFO order against a global bucket and one bucket per provider
+export default class Scheduler {
+  _backoff: BackoffOptions;
+  _global: Bucket;
+  _providerLimits: Record<string, Limits>;
+  _providers: Map<string, Bucket> = new Map();
+  _timeout: NodeJS.Timeout | null = null;
+  _waiters: Waiter[] = [];
+
+  constructor(globalLimits: Limits, providerLimits: Record<string, Limits>, backoff: BackoffOptions) {
+    this._backoff = backoff;
+    this._global = new Bucket(globalLimits);
+    this._providerLimits = providerLimits;
+  }
+
+  get pending() {
+    return this._waiters.length;
+  }
+
+  // shouldRun is checked every time a slot comes up, so work for a cancelled job never starts
+  async schedule<T>(provider: string, task: () => Promise<T>, shouldRun: () => boolean = () => true): Promise<T> {
+    const buckets = [this._global, this._getProviderBucket(provider)];
+    for (let attempt = 0; ; attempt++) {
+      await this._acquire(buckets);
+      if (!shouldRun()) {
+        this._release(buckets);
+        throw new ScheduleCancelledError();
+      }
+
+      try {
+        return await task();
+      } catch (error) {
+        const retryDelayMs = attempt < this._backoff.maxRetries ? getRetryDelayMs(error, attempt, this._backoff) : null;
+        if (retryDelayMs === null) {
+          throw error;
+        }
+
+        logger.info('backing off', {
+          attempt,
+          provider,
+          retryDelayMs,
+          status: axios.isAxiosError(error) ? error.response?.status : undefined
+        });
+        // the provider is struggling, so hold off everyone else's requests too
+        buckets[1].pause(Date.now() + retryDelayMs);
+      } finally {
+        this._release(buckets);
+      }
+    }
+  }
+
+  _acquire(buckets: Bucket[]) {
+    return new Promise<void>((resolve) => {
+      this._waiters.push({
+        buckets,
+        resolve
+      });
+      this._drain();
+    });
+  }
+
+  _drain() {
+    if (this._timeout) {
+      clearTimeout(this._timeout);
+      this._timeout = null;
+    }
+
+    const now = Date.now();
+    let nextDelayMs = Infinity;
+    // a waiter stuck behind a busy provider shouldn't hold up waiters for other providers
+    const blockedBuckets = new Set<Bucket>();
+    this._waiters = this._waiters.filter(({ buckets, resolve }) => {
+      if (buckets.some((bucket) => blockedBuckets.has(bucket))) {
+        return true;
+      }
+
+      const delayMs = Math.max(...buckets.map((bucket) => bucket.delayMs(now)));
+      if (delayMs > 0) {
+        buckets.forEach((bucket) => blockedBuckets.add(bucket));
+        nextDelayMs = Math.min(nextDelayMs, delayMs);
+        return true;
+      }
+
+      buckets.forEach((bucket) => bucket.take(now));
+      resolve();
+      return false;
+    });
+
+    // releases wake us up on their own, only time based limits need a timer
+    if (Number.isFinite(nextDelayMs)) {
+      this._timeout = setTimeout(() => this._drain(), nextDelayMs);
+    }
+  }
+
+  _getProviderBucket(provider: string) {
+    let bucket = this._providers.get(provider);
+    if (!bucket) {
+      bucket = new Bucket(this._providerLimits[provider] ?? {
+        maxConcurrent: 0,
+        requestsPerMinute: 0
+      });
+      this._providers.set(provider, bucket);
+    }
+
+    return bucket;
+  }
+
+  _release(buckets: Bucket[]) {
+    buckets.forEach((bucket) => bucket.release());
+    this._drain();
+  }
+}
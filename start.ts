@@ -1,95 +1,204 @@
 import fs from 'fs';
+import http from 'http';
 import { AddressInfo } from 'net';
 import { resolve } from 'path';
 
 import axios from 'axios';
 import cors from 'cors';
 import { config } from 'dotenv';
-import express from 'express';
+import express, { RequestHandler, Response } from 'express';
 import md5 from 'md5';
-import { createPool, Pool, RowDataPacket } from 'mysql2/promise';
 import { v4 } from 'uuid';
 
+import { createAdminRouter } from './admin';
+import { Config, loadConfig, MOCK_SPOTIFY_PATH } from './config';
 import { get, set } from './data-store';
+import { createDbStorage } from './db';
+import { openEventStream } from './event-stream';
+import GenerationQueue, { LineCompletedEvent } from './generation-queue';
+import { runHealthChecks } from './health';
+import ImageCache from './image-cache';
+import { createImageGenerator } from './image-generators';
+import { getImageUrl, IMAGE_VARIANTS, ImageVariant, readImage, writeImage } from './image-store';
+import { findInterludes } from './interludes';
+import logger from './logger';
+import { createLyricsProviders, findLyrics, LyricsLine, LyricsProvider, LyricsUnavailableError, OverrideLyricsProvider, validateLines } from './lyrics-providers';
+import { register, registerQueueMetrics, spotifyTokenRefreshes } from './metrics';
+import { createMockSpotifyRouter } from './mock-spotify';
+import { migrate } from './migrations';
+import { planShots, STYLE_PRESETS } from './prompt-builder';
+import Quotas, { QuotaClient, QuotaExceededError } from './quotas';
+import { planScenes } from './scene-planner';
+import Scheduler, { ScheduleCancelledError } from './scheduler';
+import { Storage } from './storage';
+import { Lyrics } from './types';
+import VideoExporter, { EXPORT_FORMATS, ExportFormat } from './video-exporter';
 
 config();
 
-const {
-  DB_HOST,
-  DB_NAME,
-  DB_PASS,
-  DB_USER,
-  IMAGE_GEN_URL,
-  NODE_ENV,
-  PORT,
-  SPOTIFY_CLIENT_ID,
-  SPOTIFY_CLIENT_SECRET,
-  SPOTIFY_DC
-} = process.env;
-if (!(IMAGE_GEN_URL && SPOTIFY_CLIENT_ID && SPOTIFY_CLIENT_SECRET && SPOTIFY_DC)) {
-  console.error('IMAGE_GEN_URL, SPOTIFY_CLIENT_ID, SPOTIFY_CLIENT_SECRET, SPOTIFY_DC  must be set');
-  process.exit(1);
-}
-
-type Lyrics = {
-  imageUri: string;
-  startTimeMs: number;
-  words: string;
-}[];
-
-type Generation = {
-  status: 'waiting'
-  queuePosition: number;
-} | {
-  status: 'inProgress';
-  done: number;
-  total: number;
-} | {
-  status: 'error';
-} | {
-  status: 'cancelled';
-} | {
-  status: 'done';
-  lyrics: Lyrics;
-};
-
-function getRandomElement<T>(array: T[]): T {
-  return array[Math.floor(Math.random() * array.length)]
-}
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+// base62, always 22 characters
+const SPOTIFY_ID_REGEX = /^[0-9A-Za-z]{22}$/;
+// artists and title only go into prompts, anything longer isn't a real song
+const MAX_PROMPT_FIELD_LENGTH = 500;
+// a generous ceiling on corrected lyrics, no real song comes close
+const MAX_LYRICS_LINES = 1000;
+const MAX_LYRICS_LINE_LENGTH = 500;
+// short enough that a revoked token stops working soon after
+const SPOTIFY_USER_CACHE_MS = 10 * 60 * 1000;
 
-const GENERATION_TIMEOUT_MS = 5000;
+// how long a new instance should give us before clients retry, shutting down takes at most the drain timeout
+const RETRY_AFTER_SECONDS = 30;
 
 class Server {
   _app = express();
-  _generationQueue: Promise<unknown> = Promise.resolve();
-  _generationTimeouts: Map<string, NodeJS.Timeout> = new Map();
-  _pendingGenerations: Map<string, Generation> = new Map();
-  _pool: Pool;
-  _waitingGenerations: Record<string, Generation> = {};
+  _config: Config;
+  _generationQueue: GenerationQueue;
+  _imageCache: ImageCache;
+  _lyricsOverrides: OverrideLyricsProvider;
+  // the overrides come first, then the configured providers in order
+  _lyricsProviders: LyricsProvider[];
+  _quotas: Quotas;
+  // Spotify user IDs by the hash of an access token that belongs to them
+  _spotifyUserIds: Map<string, { expiresAt: number; userId: string; }> = new Map();
+  _status: 'starting' | 'ready' | 'draining' = 'starting';
+  _storage: Storage;
+  // lyrics being stored by track ID, so requests for the same new track store them one at a time
+  _storingLyrics: Map<string, Promise<unknown>> = new Map();
+  _videoExporter: VideoExporter;
 
   constructor() {
+    this._config = loadConfig();
+    const { adminToken, appUrl, db, generation, imageCache, imageGen, lyrics, mock, nodeEnv, port, prompt, publicUrl, quotas, spotify, trustProxy, videoExport } = this._config;
+    // has to match one of the redirect URIs registered with the Spotify app exactly
+    const redirectUri = `${publicUrl}/post_message`;
+    this._storage = createDbStorage(db);
+    this._imageCache = new ImageCache(this._storage, imageCache);
+    this._lyricsOverrides = new OverrideLyricsProvider(this._storage);
+    this._quotas = new Quotas(this._storage, quotas);
+    this._videoExporter = new VideoExporter(videoExport.ffmpegPath);
+    const imageGenerator = createImageGenerator(imageGen.provider, imageGen.options);
+
+    // alive as long as we can serve anything, the image provider being down isn't something restarting us would fix
+    this._app.get('/healthz', async (req, res) => {
+      const checks = await runHealthChecks(this._storage, imageGenerator);
+      const healthy = checks.database === 'ok' && checks.images === 'ok';
+      res.status(healthy ? 200 : 503).json({
+        checks,
+        status: this._status
+      });
+    });
+
+    // ready for new generations, which needs everything up and us not on our way out
+    this._app.get('/readyz', async (req, res) => {
+      const checks = await runHealthChecks(this._storage, imageGenerator);
+      const ready = this._status === 'ready' && Object.values(checks).every((result) => result === 'ok');
+      res.status(ready ? 200 : 503).json({
+        checks,
+        status: this._status
+      });
+    });
+
+    // nothing else can be served until the schema is up to date
+    this._app.use((req, res, next) => {
+      if (this._status === 'starting') {
+        res.set('Retry-After', RETRY_AFTER_SECONDS.toString());
+        res.sendStatus(503);
+        return;
+      }
+
+      next();
+    });
+
+    this._app.set('trust proxy', trustProxy);
     this._app.use(express.json());
     this._app.use(express.static('frontend/build'));
-    if (NODE_ENV !== 'production') {
+    if (nodeEnv !== 'production') {
       this._app.use(cors());
     }
 
-    this._app.get('/client_id', (req, res) => {
+    // work already running is seen through while we shut down, but nothing new is started
+    const acceptingGenerations: RequestHandler = (req, res, next) => {
+      if (this._status === 'draining') {
+        res.set('Retry-After', RETRY_AFTER_SECONDS.toString());
+        res.sendStatus(503);
+        return;
+      }
+
+      next();
+    };
+
+    // generating costs money or GPU time, so we need to know who's asking to hold them to their quotas
+    const identifyClient: RequestHandler = async (req, res, next) => {
+      const accessToken = req.get('Authorization')?.match(/^Bearer (.+)$/)?.[1];
+      if (!accessToken) {
+        res.sendStatus(401);
+        return;
+      }
+
+      try {
+        const spotifyUserId = await this._getSpotifyUserId(accessToken);
+        if (!spotifyUserId) {
+          res.sendStatus(401);
+          return;
+        }
+
+        const client: QuotaClient = {
+          ip: req.ip ?? req.socket.remoteAddress ?? 'unknown',
+          spotifyUserId
+        };
+        res.locals.accessToken = accessToken;
+        res.locals.client = client;
+        next();
+      } catch (error) {
+        logger.error('identify client error', {
+          error
+        });
+        res.sendStatus(500);
+      }
+    };
+
+    // everything the frontend needs to know that differs between deployments
+    this._app.get('/config', (req, res) => {
+      res.json({
+        clientId: spotify.clientId,
+        mock,
+        redirectUri,
+        spotifyAccountsUrl: spotify.browserUrls.accounts,
+        spotifyApiUrl: spotify.browserUrls.api
+      });
+    });
+
+    if (mock) {
+      logger.warn('mock mode, Spotify is being faked', {
+        fixtures: 'fixtures/spotify.json'
+      });
+      this._app.use(MOCK_SPOTIFY_PATH, createMockSpotifyRouter());
+    }
+
+    this._app.get('/style_presets', (req, res) => {
       res.json({
-        clientId: SPOTIFY_CLIENT_ID
+        defaultPreset: prompt.defaultPreset,
+        presets: Object.keys(STYLE_PRESETS)
       });
     });
 
-    this._app.get('/access_token_from_code', async (req, res) => {
-      const { code } = req.query;
+    // tokens for the default client, whose secret only we know, so it's all in bodies to stay out of URLs and logs
+    this._app.post('/access_token_from_code', async (req, res) => {
+      const { code } = req.body;
       if (typeof code !== 'string') {
         res.sendStatus(400);
         return;
       }
 
-      const redirectUri = NODE_ENV === 'production' ? 'https://literalvisualiser.com' :  'http://localhost:8080';
       try {
-        const { data: { access_token, expires_in, refresh_token } } = await axios.post(`https://accounts.spotify.com/api/token?client_id=${SPOTIFY_CLIENT_ID}&client_secret=${SPOTIFY_CLIENT_SECRET}&code=${code}&grant_type=authorization_code&redirect_uri=${encodeURIComponent(`${redirectUri}/post_message`)}`, null, {
+        const { data: { access_token, expires_in, refresh_token } } = await axios.post(`${spotify.urls.accounts}/api/token`, new URLSearchParams({
+          client_id: spotify.clientId,
+          client_secret: spotify.clientSecret,
+          code,
+          grant_type: 'authorization_code',
+          redirect_uri: redirectUri
+        }).toString(), {
           headers: {
             'Content-Type': 'application/x-www-form-urlencoded'
           }
@@ -100,7 +209,7 @@ class Server {
           refreshToken: refresh_token
         });
       } catch (error) {
-        console.error('access_token error', {
+        logger.error('access_token error', {
           error
         });
         res.sendStatus(500);
@@ -108,15 +217,20 @@ class Server {
       }
     });
 
-    this._app.get('/access_token_from_refresh_token', async (req, res) => {
-      const { refresh_token } = req.query;
-      if (typeof refresh_token !== 'string') {
+    this._app.post('/access_token_from_refresh_token', async (req, res) => {
+      const { refreshToken } = req.body;
+      if (typeof refreshToken !== 'string') {
         res.sendStatus(400);
         return;
       }
 
       try {
-        const { data: { access_token, expires_in } } = await axios.post(`https://accounts.spotify.com/api/token?client_id=${SPOTIFY_CLIENT_ID}&client_secret=${SPOTIFY_CLIENT_SECRET}&refresh_token=${refresh_token}&grant_type=refresh_token`, null, {
+        const { data: { access_token, expires_in } } = await axios.post(`${spotify.urls.accounts}/api/token`, new URLSearchParams({
+          client_id: spotify.clientId,
+          client_secret: spotify.clientSecret,
+          grant_type: 'refresh_token',
+          refresh_token: refreshToken
+        }).toString(), {
           headers: {
             'Content-Type': 'application/x-www-form-urlencoded'
           }
@@ -126,7 +240,7 @@ class Server {
           expiresIn: expires_in
         });
       } catch (error) {
-        console.error('access_token error', {
+        logger.error('access_token error', {
           error
         });
         res.sendStatus(500);
@@ -134,176 +248,339 @@ class Server {
       }
     });
 
-    this._app.get('/generate/:trackId', async (req, res) => {
+    const validTrackId: RequestHandler = (req, res, next) => {
+      if (!SPOTIFY_ID_REGEX.test(req.params.trackId)) {
+        res.sendStatus(400);
+        return;
+      }
+
+      next();
+    };
+
+    // what /generate would use, with source saying whether it's been corrected ('override') or which provider it's from
+    this._app.get('/lyrics/:trackId', validTrackId, async (req, res) => {
+      const { trackId } = req.params;
+      try {
+        const { lines, provider } = await this._findLyrics(trackId);
+        res.json({
+          lines,
+          source: provider.name
+        });
+      } catch (error) {
+        if (error instanceof LyricsUnavailableError) {
+          res.sendStatus(422);
+          return;
+        }
+
+        logger.error('lyrics error', {
+          error,
+          trackId
+        });
+        res.sendStatus(500);
+      }
+    });
+
+    // corrections apply to everyone's generations of the track from then on, so only people logged in to Spotify can make them
+    this._app.put('/lyrics/:trackId', validTrackId, identifyClient, async (req, res) => {
+      const { trackId } = req.params;
+      const { lines } = req.body;
+      const isLine = (line: unknown): line is LyricsLine => (
+        typeof line === 'object' && line !== null && 'startTimeMs' in line && 'words' in line &&
+        typeof line.startTimeMs === 'number' && Number.isInteger(line.startTimeMs) && line.startTimeMs >= 0 &&
+        typeof line.words === 'string' && line.words.length <= MAX_LYRICS_LINE_LENGTH
+      );
+      if (!(Array.isArray(lines) && lines.length <= MAX_LYRICS_LINES && lines.every(isLine))) {
+        res.sendStatus(400);
+        return;
+      }
+
+      let validLines: LyricsLine[];
+      try {
+        validLines = validateLines(lines.map(({ startTimeMs, words }: LyricsLine) => ({
+          startTimeMs,
+          words: words.trim()
+        })));
+      } catch (error) {
+        // nothing left that could be shown
+        res.sendStatus(400);
+        return;
+      }
+
+      const { spotifyUserId }: QuotaClient = res.locals.client;
+      try {
+        await this._lyricsOverrides.save(trackId, validLines, spotifyUserId);
+        logger.info('lyrics corrected', {
+          lineCount: validLines.length,
+          spotifyUserId,
+          trackId
+        });
+        res.json({
+          lines: validLines,
+          source: this._lyricsOverrides.name
+        });
+      } catch (error) {
+        logger.error('lyrics error', {
+          error,
+          trackId
+        });
+        res.sendStatus(500);
+      }
+    });
+
+    // back to whatever the providers have
+    this._app.delete('/lyrics/:trackId', validTrackId, identifyClient, async (req, res) => {
+      const { trackId } = req.params;
+      try {
+        res.sendStatus(await this._lyricsOverrides.delete(trackId) ? 204 : 404);
+      } catch (error) {
+        logger.error('lyrics error', {
+          error,
+          trackId
+        });
+        res.sendStatus(500);
+      }
+    });
+
+    this._app.get('/generate/:trackId', acceptingGenerations, async (req, res, next) => {
+      const { trackId } = req.params;
+      const { artists, preset = prompt.defaultPreset, title } = req.query;
+      const isPromptField = (value: unknown) => value === undefined || typeof value === 'string' && value.length <= MAX_PROMPT_FIELD_LENGTH;
+      if (!SPOTIFY_ID_REGEX.test(trackId) || typeof preset !== 'string' || !(preset in STYLE_PRESETS) || !isPromptField(artists) || !isPromptField(title)) {
+        res.sendStatus(400);
+        return;
+      }
+
+      next();
+    }, identifyClient, async (req, res) => {
       try {
         const { trackId } = req.params;
-        let lines: { startTimeMs: number; words: string; }[] = [];
+        const { artists, preset = prompt.defaultPreset, title } = req.query as Record<string, string | undefined>;
+        const client: QuotaClient = res.locals.client;
+
+        let lines: LyricsLine[] = [];
         try {
-          const cachedLinesResult = await this._pool.execute('SELECT words, start_time_ms FROM lyrics WHERE track_id = ? ORDER BY start_time_ms ASC', [trackId]);
-          const cachedLines = cachedLinesResult[0] as RowDataPacket[];
-          if (cachedLines.length > 0) {
-            lines = cachedLines.map(({ start_time_ms, words }) => ({
-              startTimeMs: start_time_ms,
-              words
-            }));
-          } else {
-            lines = (await axios.get(`https://spclient.wg.spotify.com/color-lyrics/v2/track/${trackId}?format=json&vocalRemoval=false`, {
-              headers: {
-                'App-Platform': 'WebPlayer',
-                Authorization: `Bearer ${await this._getAccessToken()}`
-              }
-            })).data.lyrics.lines
-              .filter(({ words }: { words: string; }) => words && words !== '♪')
-              .map(({ startTimeMs, words }: { startTimeMs: string; words: string; }) => ({
-                startTimeMs: parseInt(startTimeMs, 10),
-                words
-              }));
-            // on Spotify this shows up as "These lyrics aren't synced to the song yet."
-            if (lines.every((line) => line.startTimeMs === 0)) {
-              res.sendStatus(422);
-              return;
-            }
-            lines.forEach(({ startTimeMs, words }) => {
-              this._pool.execute('INSERT INTO lyrics (id, words, start_time_ms, track_id) VALUES (?, ?, ?, ?)', [v4(), words, startTimeMs, trackId]);
-            });
-          }
-        } catch (error: any) {
-          if (error.response?.status === 404) {
+          lines = (await this._findLyrics(trackId)).lines;
+        } catch (error) {
+          if (error instanceof LyricsUnavailableError) {
             res.sendStatus(422);
           } else {
-            console.error('generation error', {
-              error
+            logger.error('generation error', {
+              error,
+              trackId
             });
             res.sendStatus(500);
           }
 
           return;
         }
-        const generationId = v4();
-        const uniqueWordHashes = [...new Set(lines.map(({ words }) => words))].map((word) => md5(word));
-        const hasAnyUncachedResult = await this._pool.execute(`SELECT COUNT(DISTINCT(words_hash)) FROM generations WHERE words_hash IN (${new Array(uniqueWordHashes.length).fill('?').join(',')})`, uniqueWordHashes);
-        const hasAnyUncached = (hasAnyUncachedResult[0] as RowDataPacket[])[0]['COUNT(DISTINCT(words_hash))'] < uniqueWordHashes.length;
-        const setInProgress = () => {
-          this._pendingGenerations.set(generationId, {
-            status: 'inProgress',
-            done: 0,
-            total: lines.length
+
+        // instrumental breaks are found first so they're scenes of their own, the outro needs the track's duration
+        const { interludes } = generation;
+        const track = await this._getTrack(trackId, res.locals.accessToken);
+        const { plannedLines, scenes } = planScenes(findInterludes(lines, track?.durationMs ?? null, interludes), generation.scenes);
+        const hasInterludes = plannedLines.some(({ interlude }) => interlude);
+        const albumArtHash = hasInterludes && interludes.visual === 'albumArt' && track?.albumArtUrl ? await this._cacheAlbumArt(trackId, track.albumArtUrl) : null;
+        // album art falls back to a mood image when there isn't any
+        const interludeVisual = interludes.visual === 'albumArt' && !albumArtHash ? 'mood' : interludes.visual;
+        // prompts are per scene, each line showing one of its scene's images
+        const shots = planShots(plannedLines, scenes, {
+          artists,
+          contextLines: prompt.contextLines,
+          globalNegativePrompt: prompt.negative,
+          preset,
+          title
+        }, interludeVisual, albumArtHash);
+        const promptHashes = shots.map(({ promptHash }) => promptHash);
+        const timeline = plannedLines.map((line) => ({
+          ...line,
+          interlude: line.interlude ? interludeVisual : null
+        }));
+        const uncached = await this._generationQueue.countUncached(promptHashes);
+        const generationId = await this._quotas.start(client, uncached, () => this._generationQueue.create(trackId, timeline, shots.map(({ prompt }) => prompt), promptHashes, client));
+        res.json({
+          generationId
+        });
+      } catch (error) {
+        if (error instanceof QuotaExceededError) {
+          this._sendQuotaExceeded(res, error);
+          return;
+        }
+
+        logger.error('generation endpoint error', {
+          error
+        });
+        if (!res.headersSent) {
+          res.sendStatus(500);
+        }
+      }
+    });
+
+    // only whoever started a generation can cancel it
+    this._app.delete('/generate/:generationId', identifyClient, async (req, res) => {
+      const { generationId } = req.params;
+      const { spotifyUserId }: QuotaClient = res.locals.client;
+      try {
+        const jobRows = await this._storage.query('SELECT spotify_user_id FROM generation_jobs WHERE id = ?', [generationId]);
+        if (jobRows.length === 0) {
+          res.sendStatus(404);
+          return;
+        }
+
+        if (jobRows[0].spotify_user_id !== spotifyUserId) {
+          res.sendStatus(403);
+          return;
+        }
+
+        if (await this._generationQueue.cancel(generationId)) {
+          logger.info('generation cancelled', {
+            generationId
           });
-        };
-        if (hasAnyUncached) {
-          const server = this;
-          const generation: Generation = {
-            get queuePosition() {
-              return Object.values(server._waitingGenerations).indexOf(this) + 2; // 1 for index + 1 for current one inProgress
-            },
-            status: 'waiting'
-          };
-          this._waitingGenerations[generationId] = generation;
-          this._pendingGenerations.set(generationId, generation);
-        } else {
-          setInProgress();
+          res.sendStatus(204);
+          return;
         }
-        this._resetGenerationTimeout(generationId);
+
+        // it already finished
+        res.sendStatus(409);
+      } catch (error) {
+        logger.error('cancel error', {
+          error,
+          generationId
+        });
+        res.sendStatus(500);
+      }
+    });
+
+    this._app.post('/generate/:generationId/lines/:lineIndex/regenerate', acceptingGenerations, identifyClient, async (req, res) => {
+      const { generationId, lineIndex } = req.params;
+      const parsedLineIndex = parseInt(lineIndex, 10);
+      if (!Number.isInteger(parsedLineIndex) || parsedLineIndex < 0) {
+        res.sendStatus(400);
+        return;
+      }
+
+      const client: QuotaClient = res.locals.client;
+      try {
+        // a new image every time, so it comes out of the daily budget too
+        await this._quotas.check(client, {
+          generation: false,
+          images: 1
+        });
+        const regenerated = await this._generationQueue.regenerateLine(generationId, parsedLineIndex);
+        if (!regenerated) {
+          res.sendStatus(404);
+          return;
+        }
+
+        await this._quotas.charge(client, 1);
+        const { imageId, lineIndexes } = regenerated;
         res.json({
+          imageId,
+          imageUrl: getImageUrl(imageId),
+          lineIndexes
+        });
+      } catch (error) {
+        if (error instanceof QuotaExceededError) {
+          this._sendQuotaExceeded(res, error);
+          return;
+        }
+
+        if (error instanceof ScheduleCancelledError) {
+          // we started shutting down before its turn came
+          res.set('Retry-After', RETRY_AFTER_SECONDS.toString());
+          res.sendStatus(503);
+          return;
+        }
+
+        logger.error('regenerate error', {
+          error,
           generationId
         });
+        res.sendStatus(500);
+      }
+    });
+
+    this._app.get('/poll/:generationId', async (req, res) => {
+      const { generationId } = req.params;
+      try {
+        const generation = await this._generationQueue.get(generationId);
+        if (!generation) {
+          res.sendStatus(404);
+          return;
+        }
+
+        await this._generationQueue.touch(generationId);
+        res.json(generation);
+      } catch (error) {
+        logger.error('poll error', {
+          error,
+          generationId
+        });
+        res.sendStatus(500);
+      }
+    });
+
+    // streams the same payloads as /poll as 'generation' events, plus a 'line' event as each line finishes
+    this._app.get('/events/:generationId', async (req, res) => {
+      const { generationId } = req.params;
+      try {
+        const generation = await this._generationQueue.get(generationId);
+        if (!generation) {
+          res.sendStatus(404);
+          return;
+        }
+
+        let lastStatus = generation.status;
+        const handleChange = async (changedGenerationId: string) => {
+          // anything starting or finishing can move the queue along, so waiting clients refresh on every change
+          if (changedGenerationId !== generationId && lastStatus !== 'waiting') {
+            return;
+          }
 
-        const callback = async () => {
-          const getGeneration = () => this._pendingGenerations.get(generationId);
-          let uncachedIndex = -1;
-          const pendingImageUrisByWords: Map<string, Promise<string[]>> = new Map();
-          setInProgress();
-          delete this._waitingGenerations[generationId];
-          const lyrics = await Promise.all(lines.map(async ({ startTimeMs, words }) => {
-            if (getGeneration()?.status !== 'inProgress') {
+          try {
+            const changedGeneration = await this._generationQueue.get(generationId);
+            if (!changedGeneration) {
               return;
             }
 
-            let imageUri = 'data:image/jpeg;base64,';
-            try {
-              const wordsHash = md5(words);
-              const existingResult = await this._pool.execute('SELECT id FROM generations WHERE words_hash = ?', [wordsHash]);
-              const existingRecords = existingResult[0] as RowDataPacket[];
-              const pendingImageUris = pendingImageUrisByWords.get(words);
-              if (pendingImageUris) {
-                imageUri += getRandomElement(await pendingImageUris);
-                if (getGeneration()?.status !== 'inProgress') {
-                  return;
-                }
-              } else if (existingRecords.length > 0) {
-                const randomRecord = getRandomElement(existingRecords);
-                imageUri += await fs.promises.readFile(`images/${randomRecord.id}`, 'base64');
-                if (getGeneration()?.status !== 'inProgress') {
-                  return;
-                }
-
-              } else {
-                uncachedIndex++;
-                await new Promise((resolve) => setTimeout(resolve, Math.floor(uncachedIndex / 3) * 10000));
-                if (getGeneration()?.status !== 'inProgress') {
-                  return;
-                }
-
-                console.log('generating', {
-                  words
-                });
-                const promise = axios.post(IMAGE_GEN_URL as string, {
-                  prompt: words
-                }) as Promise<{ data: { images: string[]; } }>;
-                pendingImageUrisByWords.set(words, promise.then(({ data: { images } }) => images));
-                const { data: { images } } = await promise;
-                // don't return here if not inProgress, we might as well cache what we generated
-                console.log('generated', {
-                  words
-                });
-                images.forEach(async (image) => {
-                  const imageId = v4();
-                  await fs.promises.writeFile(`images/${imageId}`, image, 'base64');
-                  await this._pool.execute('INSERT INTO generations (id, words_hash) VALUES (?, ?)', [imageId, wordsHash]);
-                });
-                imageUri += getRandomElement(images);
-                if (getGeneration()?.status !== 'inProgress') {
-                  return;
-                }
-              }
-
-              const generation = getGeneration();
-              if (generation && generation.status === 'inProgress') {
-                generation.done++;
-              }
-            } catch (error) {
-              if (getGeneration()?.status !== 'inProgress') {
-                return;
-              }
-              console.error('generation error', {
-                error
-              });
-              this._pendingGenerations.set(generationId, {
-                status: 'error',
-              });
+            lastStatus = changedGeneration.status;
+            stream.send('generation', changedGeneration);
+            if (!['waiting', 'inProgress'].includes(changedGeneration.status)) {
+              stream.close();
             }
-
-            return {
-              imageUri,
-              startTimeMs,
-              words
-            };
-          }));
-          if (this._pendingGenerations.get(generationId)?.status === 'inProgress') {
-            this._pendingGenerations.set(generationId, {
-              status: 'done',
-              lyrics: lyrics as unknown as Lyrics
+          } catch (error) {
+            logger.error('events error', {
+              error,
+              generationId
             });
           }
-        }
-        if (hasAnyUncached) {
-          this._generationQueue = this._generationQueue.finally(callback);
-        } else {
-          callback();
+        };
+        const handleLine = (lineGenerationId: string, event: LineCompletedEvent) => {
+          if (lineGenerationId === generationId) {
+            stream.send('line', event);
+          }
+        };
+        const stream = openEventStream(res, () => {
+          this._generationQueue.off('change', handleChange);
+          this._generationQueue.off('line', handleLine);
+          this._generationQueue.unsubscribe(generationId).catch((error) => {
+            logger.error('events unsubscribe error', {
+              error,
+              generationId
+            });
+          });
+        });
+        this._generationQueue.on('change', handleChange);
+        this._generationQueue.on('line', handleLine);
+        this._generationQueue.subscribe(generationId);
+
+        stream.send('generation', generation);
+        if (!['waiting', 'inProgress'].includes(generation.status)) {
+          stream.close();
         }
       } catch (error) {
-        console.error('generation endpoint error', {
-          error
+        logger.error('events error', {
+          error,
+          generationId
         });
         if (!res.headersSent) {
           res.sendStatus(500);
@@ -311,84 +588,412 @@ class Server {
       }
     });
 
-    this._app.get('/poll/:generationId', (req, res) => {
-      const { generationId } = req.params;
-      const generation = this._pendingGenerations.get(generationId);
-      if (!generation) {
+    this._app.get('/images/:imageId', async (req, res) => {
+      const { imageId } = req.params;
+      const { variant = 'full' } = req.query;
+      if (!UUID_REGEX.test(imageId) || !IMAGE_VARIANTS.includes(variant as ImageVariant)) {
+        res.sendStatus(400);
+        return;
+      }
+
+      // an ID always points at the same bytes, so browsers never need to check back
+      // SVGs from providers and imported bundles can hold scripts, which mustn't run as us when one is opened directly
+      res.set({
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        'Content-Security-Policy': 'default-src \'none\'; style-src \'unsafe-inline\'; sandbox',
+        ETag: `"${imageId}-${variant}"`,
+        'X-Content-Type-Options': 'nosniff'
+      });
+      if (req.fresh) {
+        res.sendStatus(304);
+        return;
+      }
+
+      try {
+        const { data, mimeType } = await readImage(imageId, variant as ImageVariant);
+        res.type(mimeType).send(data);
+      } catch (error: any) {
+        res.removeHeader('Cache-Control');
+        res.removeHeader('ETag');
+        if (error.code === 'ENOENT') {
+          res.sendStatus(404);
+          return;
+        }
+
+        logger.error('image error', {
+          error
+        });
+        res.sendStatus(500);
+      }
+    });
+
+    // one rating per image for each Spotify user, rating again replaces it
+    this._app.post('/images/:imageId/rating', identifyClient, async (req, res) => {
+      const { imageId } = req.params;
+      const { rating } = req.body ?? {};
+      if (!UUID_REGEX.test(imageId) || (rating !== 1 && rating !== -1)) {
+        res.sendStatus(400);
+        return;
+      }
+
+      try {
+        const existingRows = await this._storage.query('SELECT id FROM generations WHERE id = ?', [imageId]);
+        if (existingRows.length === 0) {
+          res.sendStatus(404);
+          return;
+        }
+
+        const { spotifyUserId }: QuotaClient = res.locals.client;
+        await this._storage.execute('DELETE FROM image_ratings WHERE generation_id = ? AND spotify_user_id = ?', [imageId, spotifyUserId]);
+        await this._storage.execute('INSERT INTO image_ratings (id, generation_id, rating, spotify_user_id) VALUES (?, ?, ?, ?)', [v4(), imageId, rating, spotifyUserId]);
+        res.sendStatus(204);
+      } catch (error) {
+        logger.error('rating error', {
+          error
+        });
+        res.sendStatus(500);
+      }
+    });
+
+    // audio is optional and sent as the raw body, without it the video is silent
+    // rendering ties up the only ffmpeg we run, so like generating it's limited to a few at a time for each client
+    this._app.post('/exports', identifyClient, express.raw({
+      limit: videoExport.audioLimit,
+      type: 'audio/*'
+    }), async (req, res) => {
+      const { format = 'mp4', generationId, visualisationId } = req.query;
+      if (!EXPORT_FORMATS.includes(format as ExportFormat) || !(typeof generationId === 'string' ? visualisationId === undefined : typeof visualisationId === 'string')) {
+        res.sendStatus(400);
+        return;
+      }
+
+      try {
+        let lyrics: Lyrics;
+        let filename = 'literal-visualiser';
+        if (typeof visualisationId === 'string') {
+          const visualisation = await this._getVisualisation(visualisationId);
+          if (!visualisation) {
+            res.sendStatus(404);
+            return;
+          }
+
+          lyrics = visualisation.lyrics;
+          filename = visualisation.name;
+        } else {
+          const generation = await this._generationQueue.get(generationId as string);
+          if (!generation) {
+            res.sendStatus(404);
+            return;
+          }
+
+          if (generation.status !== 'done') {
+            res.sendStatus(409);
+            return;
+          }
+
+          lyrics = generation.lyrics;
+        }
+
+        if (lyrics.length === 0) {
+          res.sendStatus(409);
+          return;
+        }
+
+        const client: QuotaClient = res.locals.client;
+        this._quotas.checkExports(this._videoExporter.countUnfinished(client));
+        const audio = Buffer.isBuffer(req.body) && req.body.length > 0 ? req.body : null;
+        const exportId = await this._videoExporter.create(lyrics, format as ExportFormat, filename.replace(/[^\w -]+/g, '').trim() || 'literal-visualiser', audio, client);
+        res.json({
+          exportId
+        });
+      } catch (error) {
+        if (error instanceof QuotaExceededError) {
+          this._sendQuotaExceeded(res, error);
+          return;
+        }
+
+        logger.error('export create error', {
+          error
+        });
+        res.sendStatus(500);
+      }
+    });
+
+    this._app.get('/exports/:exportId', (req, res) => {
+      const videoExport = this._videoExporter.get(req.params.exportId);
+      if (!videoExport) {
         res.sendStatus(404);
         return;
       }
 
-      res.json(generation);
-
-      if (generation.status === 'done') {
-        this._pendingGenerations.delete(generationId);
-        clearTimeout(this._generationTimeouts.get(generationId));
-        this._generationTimeouts.delete(generationId);
-      } else {
-        this._resetGenerationTimeout(generationId);
-      }
-    });
-
-    this._app.get('/post_message', (req, res) => {
-      res.sendFile(resolve(`${__dirname}/public/post_message.html`))
-    });
-
-    const [host, dbPort] = (DB_HOST ?? 'localhost').split(':');
-    const parsedDbPort = parseInt(dbPort ?? '3306', 10);
-    this._pool = createPool({
-      database: DB_NAME ?? 'literal_visualiser',
-      host,
-      password: DB_PASS ?? '',
-      port: parsedDbPort,
-      user: DB_USER ?? 'root'
-    });
-
-    Promise.all([
-      `
-        CREATE TABLE IF NOT EXISTS generations (
-          id VARCHAR(36) NOT NULL PRIMARY KEY,
-          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-          words_hash VARCHAR(32) NOT NULL,
-          INDEX(words_hash)
-        );
-      `,
-      `
-        CREATE TABLE IF NOT EXISTS lyrics (
-          id VARCHAR(36) NOT NULL PRIMARY KEY,
-          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-          words TEXT NOT NULL,
-          start_time_ms INTEGER NOT NULL,
-          track_id VARCHAR(30) NOT NULL,
-          INDEX(track_id)
-        );
-      `
-    ].map((statement) => {
-      return this._pool.execute(statement.trim());
-    })).then(() => {
-      const port = parseInt(PORT ?? '8080', 10);
-      const server = this._app.listen(port, () => {
-        console.log('listening', {
-          port: (server.address() as AddressInfo).port
+      res.json(videoExport);
+    });
+
+    this._app.get('/exports/:exportId/events', (req, res) => {
+      const { exportId } = req.params;
+      if (!this._videoExporter.get(exportId)) {
+        res.sendStatus(404);
+        return;
+      }
+
+      const handleChange = (changedExportId: string) => {
+        const videoExport = this._videoExporter.get(exportId);
+        if (changedExportId !== exportId || !videoExport) {
+          return;
+        }
+
+        stream.send('export', videoExport);
+        if (!['waiting', 'inProgress'].includes(videoExport.status)) {
+          stream.close();
+        }
+      };
+      const stream = openEventStream(res, () => {
+        this._videoExporter.off('change', handleChange);
+      });
+      this._videoExporter.on('change', handleChange);
+      handleChange(exportId);
+    });
+
+    this._app.get('/exports/:exportId/download', (req, res) => {
+      const download = this._videoExporter.getDownload(req.params.exportId);
+      if (!download) {
+        res.sendStatus(404);
+        return;
+      }
+
+      res.download(download.path, download.filename);
+    });
+
+    // saved images are never evicted, so we keep track of who's pinning them
+    this._app.post('/visualisations', identifyClient, async (req, res) => {
+      const { artists, generationId, name, thumbnailUrl, title } = req.body ?? {};
+      if (typeof generationId !== 'string' || typeof name !== 'string' || !name.trim() || name.length > 255 || [artists, thumbnailUrl, title].some((value) => value !== undefined && value !== null && typeof value !== 'string')) {
+        res.sendStatus(400);
+        return;
+      }
+
+      try {
+        const generationRows = await this._storage.query('SELECT status, track_id FROM generation_jobs WHERE id = ?', [generationId]);
+        const generation = generationRows[0];
+        if (!generation) {
+          res.sendStatus(404);
+          return;
+        }
+
+        if (generation.status !== 'done') {
+          res.sendStatus(409);
+          return;
+        }
+
+        // snapshot whatever each line is showing right now, regenerated images included
+        await this._generationQueue.touch(generationId);
+        const lyrics = await this._generationQueue.getLyrics(generationId);
+        const visualisationId = v4();
+        const { spotifyUserId }: QuotaClient = res.locals.client;
+        await this._storage.execute('INSERT INTO visualisations (id, artists, name, spotify_user_id, thumbnail_url, title, track_id) VALUES (?, ?, ?, ?, ?, ?, ?)', [visualisationId, artists ?? null, name.trim(), spotifyUserId, thumbnailUrl ?? null, title ?? null, generation.track_id]);
+        await Promise.all(lyrics.map(({ imageId, interlude, sceneIndex, startTimeMs, words }, index) => {
+          return this._storage.execute('INSERT INTO visualisation_lines (id, generation_id, interlude, line_index, scene_index, start_time_ms, visualisation_id, words) VALUES (?, ?, ?, ?, ?, ?, ?, ?)', [v4(), imageId, interlude, index, sceneIndex, startTimeMs, visualisationId, words]);
+        }));
+        res.json({
+          visualisationId
+        });
+      } catch (error) {
+        logger.error('visualisation save error', {
+          error
+        });
+        res.sendStatus(500);
+      }
+    });
+
+    this._app.get('/visualisations/:visualisationId', async (req, res) => {
+      try {
+        const visualisation = await this._getVisualisation(req.params.visualisationId);
+        if (!visualisation) {
+          res.sendStatus(404);
+          return;
+        }
+
+        res.json(visualisation);
+      } catch (error) {
+        logger.error('visualisation error', {
+          error
+        });
+        res.sendStatus(500);
+      }
+    });
+
+    // permalinks are handled by the frontend
+    this._app.get('/v/:visualisationId', (req, res) => {
+      res.sendFile(resolve(`${__dirname}/frontend/build/index.html`));
+    });
+
+    // as is the admin page, which then talks to the routes under it
+    this._app.get('/admin', (req, res) => {
+      res.sendFile(resolve(`${__dirname}/frontend/build/index.html`));
+    });
+
+    if (adminToken) {
+      this._app.use('/admin', createAdminRouter(this._storage, adminToken));
+    }
+
+    this._app.get('/metrics', async (req, res) => {
+      try {
+        res.set('Content-Type', register.contentType);
+        res.send(await register.metrics());
+      } catch (error) {
+        logger.error('metrics error', {
+          error
         });
+        res.sendStatus(500);
+      }
+    });
+
+    // the login window posts the code back to the frontend, and to nowhere else
+    const appOrigin = new URL(appUrl).origin;
+    this._app.get('/post_message', async (req, res) => {
+      try {
+        const page = await fs.promises.readFile(resolve(`${__dirname}/public/post_message.html`), 'utf8');
+        res.type('html');
+        res.send(page.replace('%APP_ORIGIN%', JSON.stringify(appOrigin)));
+      } catch (error) {
+        logger.error('post_message error', {
+          error
+        });
+        res.sendStatus(500);
+      }
+    });
+
+
+    this._lyricsProviders = [this._lyricsOverrides, ...createLyricsProviders(lyrics.providers, {
+      getAccessToken: () => this._getAccessToken(),
+      getIsrc: (trackId) => this._getIsrc(trackId),
+      lrcDirectory: lyrics.lrcDirectory,
+      spotifyLyricsUrl: spotify.urls.lyrics,
+      storage: this._storage
+    })];
+    const scheduler = new Scheduler(generation.limits, {
+      [imageGen.provider]: imageGen.limits
+    }, generation.backoff);
+    this._generationQueue = new GenerationQueue(this._storage, imageGenerator, imageGen.provider, scheduler, {
+      concurrentJobs: generation.concurrentJobs,
+      rejectDownvotes: generation.rejectDownvotes,
+      timeoutMs: generation.timeoutMs
+    });
+    registerQueueMetrics(() => this._generationQueue.getJobCounts(), () => scheduler.pending);
+
+    // listening straight away lets health checks see us start, everything else waits for the status to be ready
+    const server = this._app.listen(port, () => {
+      logger.info('listening', {
+        port: (server.address() as AddressInfo).port
+      });
+    });
+    process.once('SIGTERM', () => this._shutDown(server, 'SIGTERM'));
+    process.once('SIGINT', () => this._shutDown(server, 'SIGINT'));
+
+    // deployments that run `yarn migrate up` themselves can turn this off
+    (db.migrateOnStart ? migrate(this._storage) : Promise.resolve()).then(async () => {
+      await this._generationQueue.start();
+      this._imageCache.start();
+      this._status = 'ready';
+      logger.info('ready');
+    }).catch((error) => {
+      logger.error('startup error', {
+        error
       });
+      process.exit(1);
     });
   }
 
-  async _getAccessToken() {
-    const cachedAccessToken = await get('access_token');
-    if (!cachedAccessToken || cachedAccessToken.accessTokenExpirationTimestampMs < Date.now()) {
-      const { data: { accessToken, accessTokenExpirationTimestampMs, isAnonymous } } = await axios.get('https://open.spotify.com/get_access_token', {
-        headers: {
-          'App-Platform': 'WebPlayer',
-          Cookie: `sp_dc=${SPOTIFY_DC};`,
-          'User-Agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/101.0.0.0 Safari/537.36'
+  // album art is saved like any other image, under a hash of its URL so every track on the album shares it
+  // resolves to that hash, or null if it couldn't be downloaded
+  async _cacheAlbumArt(trackId: string, albumArtUrl: string) {
+    const promptHash = md5(JSON.stringify(['albumArt', albumArtUrl]));
+    const existingRows = await this._storage.query('SELECT id FROM generations WHERE words_hash = ?', [promptHash]);
+    if (existingRows.length > 0) {
+      return promptHash;
+    }
+
+    let data: ArrayBuffer;
+    try {
+      ({ data } = await axios.get(albumArtUrl, {
+        responseType: 'arraybuffer'
+      }));
+    } catch (error) {
+      logger.warn('album art download error', {
+        error,
+        trackId
+      });
+      return null;
+    }
+
+    const imageId = v4();
+    await writeImage(imageId, Buffer.from(data));
+    await this._storage.execute('INSERT INTO generations (id, last_used_at, start_time_ms, track_id, words_hash) VALUES (?, ?, ?, ?, ?)', [imageId, Date.now(), 0, trackId, promptHash]);
+    return promptHash;
+  }
+
+  // lines from the first provider that has them, remembering any that didn't come from us so they're only fetched once
+  async _findLyrics(trackId: string) {
+    const found = await findLyrics(this._lyricsProviders, trackId);
+    const { lines, provider } = found;
+    if (provider !== this._lyricsOverrides && provider.name !== 'database') {
+      // two requests for the same new track can both miss the database, whichever stores them second finds them already there
+      const stored = (this._storingLyrics.get(trackId) ?? Promise.resolve()).then(async () => {
+        const storedRows = await this._storage.query('SELECT id FROM lyrics WHERE track_id = ? LIMIT 1', [trackId]);
+        if (storedRows.length > 0) {
+          return;
+        }
+
+        await Promise.all(lines.map(({ startTimeMs, words }) => {
+          return this._storage.execute('INSERT INTO lyrics (id, words, start_time_ms, track_id) VALUES (?, ?, ?, ?)', [v4(), words, startTimeMs, trackId]);
+        }));
+      });
+      const storing = stored.catch(() => {});
+      this._storingLyrics.set(trackId, storing);
+      storing.then(() => {
+        if (this._storingLyrics.get(trackId) === storing) {
+          this._storingLyrics.delete(trackId);
         }
       });
+      await stored;
+    }
+
+    return found;
+  }
+
+  async _getAccessToken() {
+    // a fake token would otherwise be handed to the real Spotify after leaving mock mode
+    const cacheKey = this._config.mock ? 'mock_access_token' : 'access_token';
+    const cachedAccessToken = await get(cacheKey);
+    if (!cachedAccessToken || cachedAccessToken.accessTokenExpirationTimestampMs < Date.now()) {
+      let response;
+      try {
+        response = await axios.get(`${this._config.spotify.urls.web}/get_access_token`, {
+          headers: {
+            'App-Platform': 'WebPlayer',
+            Cookie: `sp_dc=${this._config.spotify.dc};`,
+            'User-Agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/101.0.0.0 Safari/537.36'
+          }
+        });
+      } catch (error) {
+        spotifyTokenRefreshes.inc({
+          outcome: 'error'
+        });
+        throw error;
+      }
+
+      const { data: { accessToken, accessTokenExpirationTimestampMs, isAnonymous } } = response;
       if (isAnonymous) {
+        spotifyTokenRefreshes.inc({
+          outcome: 'anonymous'
+        });
         throw 'token returned as isAnonymous';
       }
-      await set('access_token', {
+
+      spotifyTokenRefreshes.inc({
+        outcome: 'success'
+      });
+      await set(cacheKey, {
         accessToken,
         accessTokenExpirationTimestampMs
       });
@@ -398,20 +1003,150 @@ class Server {
     return cachedAccessToken.accessToken;
   }
 
-  _resetGenerationTimeout(generationId: string) {
-    const timeout = this._generationTimeouts.get(generationId);
-    if (typeof timeout !== 'undefined') {
-      clearTimeout(timeout);
+  async _getIsrc(trackId: string): Promise<string | null> {
+    if (!this._config.spotify.dc) {
+      return null;
+    }
+
+    const { data: { external_ids } } = await axios.get(`${this._config.spotify.urls.api}/v1/tracks/${trackId}`, {
+      headers: {
+        Authorization: `Bearer ${await this._getAccessToken()}`
+      }
+    });
+    return external_ids?.isrc ?? null;
+  }
+
+  // null if Spotify doesn't accept the token
+  async _getSpotifyUserId(accessToken: string) {
+    const now = Date.now();
+    const key = md5(accessToken);
+    const cached = this._spotifyUserIds.get(key);
+    if (cached && cached.expiresAt > now) {
+      return cached.userId;
+    }
+
+    let userId: string;
+    try {
+      const { data } = await axios.get(`${this._config.spotify.urls.api}/v1/me`, {
+        headers: {
+          Authorization: `Bearer ${accessToken}`
+        }
+      });
+      userId = data.id;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 401) {
+        return null;
+      }
+
+      throw error;
+    }
+
+    this._spotifyUserIds.forEach(({ expiresAt }, cachedKey) => {
+      if (expiresAt <= now) {
+        this._spotifyUserIds.delete(cachedKey);
+      }
+    });
+    this._spotifyUserIds.set(key, {
+      expiresAt: now + SPOTIFY_USER_CACHE_MS,
+      userId
+    });
+    return userId;
+  }
+
+  // null if Spotify doesn't answer, interludes can do without it
+  async _getTrack(trackId: string, accessToken: string): Promise<{ albumArtUrl: string | null; durationMs: number; } | null> {
+    try {
+      const { data: { album, duration_ms } } = await axios.get(`${this._config.spotify.urls.api}/v1/tracks/${trackId}`, {
+        headers: {
+          Authorization: `Bearer ${accessToken}`
+        }
+      });
+      return {
+        // the biggest comes first
+        albumArtUrl: album?.images?.[0]?.url ?? null,
+        durationMs: duration_ms
+      };
+    } catch (error) {
+      logger.warn('track details error', {
+        error,
+        trackId
+      });
+      return null;
+    }
+  }
+
+  async _getVisualisation(visualisationId: string) {
+    const visualisationRows = await this._storage.query('SELECT artists, name, thumbnail_url, title, track_id FROM visualisations WHERE id = ?', [visualisationId]);
+    const visualisation = visualisationRows[0];
+    if (!visualisation) {
+      return null;
+    }
+
+    const linesRows = await this._storage.query('SELECT generation_id, interlude, line_index, scene_index, start_time_ms, words FROM visualisation_lines WHERE visualisation_id = ? ORDER BY line_index ASC', [visualisationId]);
+    const lyrics: Lyrics = linesRows.map(({ generation_id, interlude, line_index, scene_index, start_time_ms, words }) => ({
+      imageId: generation_id,
+      imageUrl: getImageUrl(generation_id),
+      interlude: interlude ?? null,
+      // saved before scenes, when every line was its own
+      sceneIndex: scene_index ?? line_index,
+      startTimeMs: start_time_ms,
+      words
+    }));
+    return {
+      artists: visualisation.artists as string | null,
+      id: visualisationId,
+      lyrics,
+      name: visualisation.name as string,
+      thumbnailUrl: visualisation.thumbnail_url as string | null,
+      title: visualisation.title as string | null,
+      trackId: visualisation.track_id as string
+    };
+  }
+
+  _sendQuotaExceeded(res: Response, { limit, quota, retryAfterSeconds, scope }: QuotaExceededError) {
+    if (retryAfterSeconds !== null) {
+      res.set('Retry-After', retryAfterSeconds.toString());
+    }
+    res.status(429).json({
+      error: 'quotaExceeded',
+      limit,
+      quota,
+      retryAfterSeconds,
+      scope
+    });
+  }
+
+  // a second signal while draining skips the wait
+  async _shutDown(server: http.Server, signal: string) {
+    process.once(signal, () => process.exit(1));
+    if (this._status === 'starting') {
+      process.exit(0);
     }
 
-    this._generationTimeouts.set(generationId, setTimeout(() => {
-      console.log('generation timed out', {
-        generationId
+    this._status = 'draining';
+    const { drainTimeoutMs } = this._config.generation;
+    logger.info('shutting down', {
+      drainTimeoutMs,
+      signal
+    });
+    try {
+      // in-flight requests and event streams carry on, but no new connections are taken
+      const closed = new Promise((resolve) => server.close(resolve));
+      server.closeIdleConnections();
+      this._imageCache.stop();
+      await this._generationQueue.stop(drainTimeoutMs);
+      // anyone still streaming a job that won't finish here will reconnect to whatever replaces us
+      server.closeAllConnections();
+      await closed;
+      await this._storage.close();
+      logger.info('shut down');
+      process.exit(0);
+    } catch (error) {
+      logger.error('shutdown error', {
+        error
       });
-      this._generationTimeouts.delete(generationId);
-      this._pendingGenerations.delete(generationId);
-      delete this._waitingGenerations[generationId];
-    }, GENERATION_TIMEOUT_MS));
+      process.exit(1);
+    }
   }
 }
 
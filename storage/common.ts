@@ -0,0 +1,16 @@
+export type Row = Record<string, any>;
+
+export type SqlParam = boolean | number | string | null;
+
+export interface ExecuteResult {
+  affectedRows: number;
+}
+
+// queries are written once in the SQL both databases understand, with ? placeholders
+export interface Storage {
+  dialect: 'mysql' | 'sqlite';
+  close(): Promise<void>;
+  // for statements that change things
+  execute(sql: string, params?: SqlParam[]): Promise<ExecuteResult>;
+  query<T = Row>(sql: string, params?: SqlParam[]): Promise<T[]>;
+}
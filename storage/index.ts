@@ -0,0 +1,23 @@
+import { Storage } from './common';
+import MysqlStorage, { MysqlStorageOptions } from './mysql';
+import SqliteStorage from './sqlite';
+
+export * from './common';
+
+export const STORAGE_DRIVERS = ['mysql', 'sqlite'] as const;
+
+export type StorageDriver = typeof STORAGE_DRIVERS[number];
+
+export interface StorageOptions {
+  mysql: MysqlStorageOptions;
+  sqliteFile: string;
+}
+
+export function createStorage(driver: StorageDriver, { mysql, sqliteFile }: StorageOptions): Storage {
+  switch (driver) {
+    case 'mysql':
+      return new MysqlStorage(mysql);
+    case 'sqlite':
+      return new SqliteStorage(sqliteFile);
+  }
+}
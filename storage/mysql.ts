@@ -0,0 +1,36 @@
+import { createPool, Pool, ResultSetHeader } from 'mysql2/promise';
+
+import { ExecuteResult, Row, SqlParam, Storage } from './common';
+
+export interface MysqlStorageOptions {
+  database: string;
+  host: string;
+  password: string;
+  port: number;
+  user: string;
+}
+
+export default class MysqlStorage implements Storage {
+  dialect = 'mysql' as const;
+  _pool: Pool;
+
+  constructor(options: MysqlStorageOptions) {
+    this._pool = createPool(options);
+  }
+
+  close() {
+    return this._pool.end();
+  }
+
+  async execute(sql: string, params: SqlParam[] = []): Promise<ExecuteResult> {
+    const [result] = await this._pool.execute(sql, params);
+    return {
+      affectedRows: (result as ResultSetHeader).affectedRows
+    };
+  }
+
+  async query<T = Row>(sql: string, params: SqlParam[] = []) {
+    const [rows] = await this._pool.execute(sql, params);
+    return rows as T[];
+  }
+}
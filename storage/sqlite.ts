@@ -0,0 +1,41 @@
+import fs from 'fs';
+import path from 'path';
+
+import Database from 'better-sqlite3';
+
+import { ExecuteResult, Row, SqlParam, Storage } from './common';
+
+// SQLite has no boolean type and better-sqlite3 refuses to guess
+function toSqliteParams(params: SqlParam[]) {
+  return params.map((param) => typeof param === 'boolean' ? Number(param) : param);
+}
+
+// a single file database, queries run synchronously under the hood so only suits small deployments
+export default class SqliteStorage implements Storage {
+  dialect = 'sqlite' as const;
+  _db: Database.Database;
+
+  constructor(filename: string) {
+    fs.mkdirSync(path.dirname(filename), {
+      recursive: true
+    });
+    this._db = new Database(filename);
+    // lets readers carry on while something is being written
+    this._db.pragma('journal_mode = WAL');
+  }
+
+  async close() {
+    this._db.close();
+  }
+
+  async execute(sql: string, params: SqlParam[] = []): Promise<ExecuteResult> {
+    const { changes } = this._db.prepare(sql).run(toSqliteParams(params));
+    return {
+      affectedRows: changes
+    };
+  }
+
+  async query<T = Row>(sql: string, params: SqlParam[] = []) {
+    return this._db.prepare(sql).all(toSqliteParams(params)) as T[];
+  }
+}
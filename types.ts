@@ -0,0 +1,31 @@
+import { InterludeVisual } from './interludes';
+
+export type Lyrics = {
+  imageId: string;
+  // relative to the API
+  imageUrl: string;
+  // set for an instrumental break, which has no words
+  interlude: InterludeVisual | null;
+  // consecutive lines with the same scene index are one scene, a new one starts where it changes
+  sceneIndex: number;
+  startTimeMs: number;
+  words: string;
+}[];
+
+export type Generation = {
+  status: 'waiting'
+  queuePosition: number;
+} | {
+  status: 'inProgress';
+  done: number;
+  total: number;
+} | {
+  status: 'error';
+} | {
+  status: 'cancelled';
+} | {
+  status: 'done';
+  lyrics: Lyrics;
+};
+
+export type GenerationStatus = Generation['status'];
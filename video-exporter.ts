@@ -0,0 +1,364 @@
+import { spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import sharp from 'sharp';
+import { v4 } from 'uuid';
+
+import { readImage } from './image-store';
+import logger from './logger';
+import { QuotaClient } from './quotas';
+import { Lyrics } from './types';
+
+export const EXPORT_FORMATS = ['mp4', 'webm'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// mirrors Generation so clients can treat both the same way
+export type VideoExport = {
+  status: 'waiting';
+  queuePosition: number;
+} | {
+  status: 'inProgress';
+  done: number;
+  total: number;
+} | {
+  status: 'error';
+} | {
+  status: 'done';
+  downloadUrl: string;
+};
+
+interface ExportJob {
+  audioPath: string | null;
+  // who asked for it, so they can be held to their quota
+  client: QuotaClient;
+  filename: string;
+  format: ExportFormat;
+  lyrics: Lyrics;
+  outputPath: string;
+  state: VideoExport;
+}
+
+export const EXPORTS_DIR = path.resolve(`${__dirname}/exports`);
+const FONT_PATH = path.resolve(`${__dirname}/frontend/public/Poppins-SemiBold.ttf`);
+const FRAME_RATE = 30;
+const HEIGHT = 720;
+const LAST_LINE_MS = 5000;
+const LINE_WRAP_LENGTH = 40;
+const RETENTION_MS = 60 * 60 * 1000;
+const WIDTH = 1280;
+
+const CODEC_ARGS: Record<ExportFormat, { audio: string[]; video: string[]; }> = {
+  mp4: {
+    audio: ['-c:a', 'aac', '-b:a', '192k'],
+    video: ['-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23', '-pix_fmt', 'yuv420p', '-movflags', '+faststart']
+  },
+  webm: {
+    audio: ['-c:a', 'libopus', '-b:a', '128k'],
+    video: ['-c:v', 'libvpx-vp9', '-crf', '32', '-b:v', '0', '-pix_fmt', 'yuv420p']
+  }
+};
+
+// for values inside a filtergraph, see https://ffmpeg.org/ffmpeg-filters.html#Notes-on-filtergraph-escaping
+function escapeFilterValue(value: string) {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, `'\\\\\\''`).replace(/:/g, '\\:')}'`;
+}
+
+function wrapWords(words: string) {
+  return words.split(' ').reduce<string[]>((lines, word) => {
+    const lastLine = lines[lines.length - 1];
+    if (lastLine !== undefined && `${lastLine} ${word}`.length <= LINE_WRAP_LENGTH) {
+      lines[lines.length - 1] = `${lastLine} ${word}`;
+    } else {
+      lines.push(word);
+    }
+    return lines;
+  }, []).join('\n');
+}
+
+// renders slideshows with ffmpeg one at a time, since each one will happily use every core we have
+// emits 'change' with an export ID whenever an export's state changes
+export default class VideoExporter extends EventEmitter {
+  _ffmpegPath: string;
+  _jobs: Map<string, ExportJob> = new Map();
+  _queue: Promise<unknown> = Promise.resolve();
+  _waiting: string[] = [];
+
+  constructor(ffmpegPath: string) {
+    super();
+    // every streaming client listens for changes
+    this.setMaxListeners(0);
+    this._ffmpegPath = ffmpegPath;
+  }
+
+  // lyrics need at least one line, the audio file (if any) is moved into our temporary directory and deleted with the export
+  async create(lyrics: Lyrics, format: ExportFormat, filename: string, audio: Buffer | null, client: QuotaClient) {
+    const exportId = v4();
+    await fs.promises.mkdir(EXPORTS_DIR, {
+      recursive: true
+    });
+    let audioPath: string | null = null;
+    if (audio) {
+      audioPath = `${EXPORTS_DIR}/${exportId}.audio`;
+      await fs.promises.writeFile(audioPath, audio);
+    }
+
+    const exporter = this;
+    this._jobs.set(exportId, {
+      audioPath,
+      client,
+      filename: `${filename}.${format}`,
+      format,
+      lyrics,
+      outputPath: `${EXPORTS_DIR}/${exportId}.${format}`,
+      state: {
+        get queuePosition() {
+          return exporter._waiting.indexOf(exportId) + 2; // 1 for index + 1 for current one inProgress
+        },
+        status: 'waiting'
+      }
+    });
+    this._waiting.push(exportId);
+    this._queue = this._queue.finally(() => this._run(exportId)).catch((error) => {
+      logger.error('export queue error', {
+        error,
+        exportId
+      });
+    });
+    return exportId;
+  }
+
+  // how many exports waiting or in progress came from the client's IP and from their Spotify user
+  countUnfinished({ ip, spotifyUserId }: QuotaClient) {
+    const unfinished = {
+      ip: 0,
+      user: 0
+    };
+    for (const { client, state } of this._jobs.values()) {
+      if (state.status !== 'waiting' && state.status !== 'inProgress') {
+        continue;
+      }
+
+      if (client.ip === ip) {
+        unfinished.ip++;
+      }
+      if (client.spotifyUserId === spotifyUserId) {
+        unfinished.user++;
+      }
+    }
+
+    return unfinished;
+  }
+
+  get(exportId: string) {
+    return this._jobs.get(exportId)?.state ?? null;
+  }
+
+  // resolves to where the finished file is and what it should be called, or null if it isn't ready
+  getDownload(exportId: string) {
+    const job = this._jobs.get(exportId);
+    if (!job || job.state.status !== 'done') {
+      return null;
+    }
+
+    return {
+      filename: job.filename,
+      path: job.outputPath
+    };
+  }
+
+  async _cleanUp(exportId: string) {
+    const job = this._jobs.get(exportId);
+    this._jobs.delete(exportId);
+    if (job) {
+      await Promise.all([job.audioPath, job.outputPath].map((filePath) => filePath && fs.promises.rm(filePath, {
+        force: true
+      })));
+    }
+  }
+
+  // each image is letterboxed to the output size as a PNG, ffmpeg can't read everything providers give us (SVG, for one)
+  async _prepareFrames(lyrics: Lyrics, workDir: string) {
+    const blankPath = `${workDir}/blank.png`;
+    await sharp({
+      create: {
+        background: '#000',
+        channels: 3,
+        height: HEIGHT,
+        width: WIDTH
+      }
+    }).png().toFile(blankPath);
+
+    const framePaths: Map<string, string> = new Map();
+    for (const { imageId } of lyrics) {
+      if (framePaths.has(imageId)) {
+        continue;
+      }
+
+      const { data } = await readImage(imageId);
+      const framePath = `${workDir}/${imageId}.png`;
+      await sharp(data)
+        .resize(WIDTH, HEIGHT, {
+          background: '#000',
+          fit: 'contain'
+        })
+        .png()
+        .toFile(framePath);
+      framePaths.set(imageId, framePath);
+    }
+
+    return {
+      blankPath,
+      framePaths
+    };
+  }
+
+  async _run(exportId: string) {
+    const job = this._jobs.get(exportId);
+    this._waiting = this._waiting.filter((waitingId) => waitingId !== exportId);
+    if (!job) {
+      return;
+    }
+
+    const { audioPath, format, lyrics, outputPath } = job;
+    const lastStartTimeMs = lyrics[lyrics.length - 1].startTimeMs;
+    const totalMs = lastStartTimeMs + LAST_LINE_MS;
+    const setState = (state: VideoExport) => {
+      job.state = state;
+      this.emit('change', exportId);
+    };
+    setState({
+      status: 'inProgress',
+      done: 0,
+      total: totalMs
+    });
+
+    let workDir: string | null = null;
+    try {
+      workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'literal-visualiser-export-'));
+      const { blankPath, framePaths } = await this._prepareFrames(lyrics, workDir);
+
+      // the concat demuxer holds each frame for its duration, the last entry is repeated because its duration is otherwise ignored
+      const segments = [
+        {
+          durationMs: lyrics[0].startTimeMs,
+          framePath: blankPath
+        },
+        ...lyrics.map(({ imageId, startTimeMs }, index) => ({
+          durationMs: (index === lyrics.length - 1 ? totalMs : lyrics[index + 1].startTimeMs) - startTimeMs,
+          framePath: framePaths.get(imageId) as string
+        }))
+      ].filter(({ durationMs }) => durationMs > 0);
+      const concatLines = segments.flatMap(({ durationMs, framePath }) => [`file '${framePath}'`, `duration ${(durationMs / 1000).toFixed(3)}`]);
+      concatLines.push(`file '${segments[segments.length - 1].framePath}'`);
+      const concatPath = `${workDir}/frames.txt`;
+      await fs.promises.writeFile(concatPath, `ffconcat version 1.0\n${concatLines.join('\n')}\n`);
+
+      // words go through text files so nothing in them needs escaping
+      const filters = [`scale=${WIDTH}:${HEIGHT}`, `fps=${FRAME_RATE}`];
+      await Promise.all(lyrics.map(async ({ startTimeMs, words }, index) => {
+        // interludes have nothing to draw
+        if (!words) {
+          return;
+        }
+
+        const textPath = `${workDir}/line-${index}.txt`;
+        await fs.promises.writeFile(textPath, wrapWords(words));
+        const endTimeMs = index === lyrics.length - 1 ? totalMs : lyrics[index + 1].startTimeMs;
+        filters[index + 2] = [
+          `drawtext=fontfile=${escapeFilterValue(FONT_PATH)}`,
+          `textfile=${escapeFilterValue(textPath)}`,
+          'fontcolor=white',
+          'fontsize=44',
+          'line_spacing=8',
+          'box=1',
+          'boxcolor=black@0.4',
+          'boxborderw=12',
+          'x=(w-text_w)/2',
+          'y=(h-text_h)/2',
+          `enable=${escapeFilterValue(`between(t,${startTimeMs / 1000},${endTimeMs / 1000})`)}`
+        ].join(':');
+      }));
+      const filterPath = `${workDir}/filters.txt`;
+      await fs.promises.writeFile(filterPath, filters.filter(Boolean).join(','));
+
+      const { audio, video } = CODEC_ARGS[format];
+      const args = [
+        '-y',
+        '-nostats',
+        '-progress', 'pipe:1',
+        '-f', 'concat',
+        '-safe', '0',
+        '-i', concatPath,
+        ...(audioPath ? ['-i', audioPath] : []),
+        '-filter_script:v', filterPath,
+        ...video,
+        ...(audioPath ? [...audio, '-map', '0:v', '-map', '1:a', '-shortest'] : ['-an']),
+        '-t', (totalMs / 1000).toFixed(3),
+        outputPath
+      ];
+      await new Promise<void>((resolve, reject) => {
+        const ffmpeg = spawn(this._ffmpegPath, args);
+        let stderr = '';
+        ffmpeg.stdout.on('data', (chunk: Buffer) => {
+          const outTimeUs = chunk.toString().match(/out_time_us=(\d+)/g)?.pop()?.split('=')[1];
+          if (outTimeUs) {
+            setState({
+              status: 'inProgress',
+              done: Math.min(Math.round(parseInt(outTimeUs, 10) / 1000), totalMs),
+              total: totalMs
+            });
+          }
+        });
+        ffmpeg.stderr.on('data', (chunk: Buffer) => {
+          // only the tail is useful when something goes wrong
+          stderr = (stderr + chunk.toString()).slice(-4000);
+        });
+        ffmpeg.on('error', reject);
+        ffmpeg.on('close', (code) => {
+          if (code === 0) {
+            resolve();
+          } else {
+            reject(new Error(`ffmpeg exited with ${code}: ${stderr}`));
+          }
+        });
+      });
+
+      setState({
+        status: 'done',
+        downloadUrl: `/exports/${exportId}/download`
+      });
+    } catch (error) {
+      logger.error('export error', {
+        error,
+        exportId
+      });
+      setState({
+        status: 'error'
+      });
+    } finally {
+      if (workDir) {
+        await fs.promises.rm(workDir, {
+          force: true,
+          recursive: true
+        }).catch((error) => {
+          logger.error('export work dir clean up error', {
+            error,
+            exportId
+          });
+        });
+      }
+      setTimeout(() => {
+        this._cleanUp(exportId).catch((error) => {
+          logger.error('export clean up error', {
+            error,
+            exportId
+          });
+        });
+      }, RETENTION_MS);
+    }
+  }
+}